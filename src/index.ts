@@ -89,6 +89,21 @@ export enum ConverterErrorType {
 
   /** Indicates a validation error */
   VALIDATION = 'VALIDATION',
+
+  /** Indicates a synchronous converter received a promise from a registered function */
+  ASYNC_RESULT = 'ASYNC_RESULT',
+
+  /** Indicates an error in a stage of a composed converter */
+  PIPE_STAGE = 'PIPE_STAGE',
+
+  /** Indicates several errors collected by an {@link AggregateConverterError} */
+  AGGREGATE = 'AGGREGATE',
+
+  /** Indicates a registered function did not settle within its `timeout` */
+  TIMEOUT = 'TIMEOUT',
+
+  /** Indicates the conversion was cancelled through its `signal` */
+  CANCELLED = 'CANCELLED',
 }
 
 /**
@@ -106,12 +121,33 @@ export class ConverterError extends Error {
   /** @type {any} [source] The source object that caused the error (optional) */
   source?: any;
 
-  /** @type {string} [fieldName] The field name related to the error (optional) */
+  /** @type {string} [fieldName] The field name related to the error, formatted from `path` (optional) */
   fieldName?: string;
 
-  /** @type {Error} [originalError] The original error that triggered this one (optional) */
+  /**
+   * @type {(string | number)[]} path Location of the error in the target object, such as
+   * `['items', 3, 'price']`; empty when the error is not tied to a field
+   */
+  path: (string | number)[];
+
+  /** @type {unknown} [cause] The error that triggered this one, as the standard ES2022 property (optional) */
+  cause?: unknown;
+
+  /**
+   * @type {Error} [originalError] The original error that triggered this one (optional)
+   * @deprecated Use the standard `cause` property instead
+   */
   originalError?: Error;
 
+  /** @type {ReadonlyArray<StandardSchemaV1.Issue>} [issues] Schema validation issues (optional) */
+  issues?: ReadonlyArray<StandardSchemaV1.Issue>;
+
+  /**
+   * @type {'throw' | 'warn' | 'ignore' | 'collect' | 'skip' | 'fallback'} [policy] The error policy
+   * the converter applied when it handled this error (optional)
+   */
+  policy?: 'throw' | 'warn' | 'ignore' | 'collect' | 'skip' | 'fallback';
+
   /**
    * Creates a new ConverterError instance
    *
@@ -120,21 +156,35 @@ export class ConverterError extends Error {
    * @param {Object} [options] - Additional error details
    * @param {any} [options.source] - The source object causing the error
    * @param {string} [options.fieldName] - The field name involved
-   * @param {Error} [options.originalError] - The original error
+   * @param {(string | number)[]} [options.path] - The error location; defaults to `[fieldName]`
+   * @param {unknown} [options.cause] - The error that triggered this one
+   * @param {Error} [options.originalError] - Alias of `cause`, kept for compatibility
+   * @param {ReadonlyArray<StandardSchemaV1.Issue>} [options.issues] - Schema validation issues
    * @example
    * throw new ConverterError('Invalid input', ConverterErrorType.INVALID_SOURCE, { source: {} });
    */
   constructor(
     message: string,
     type: ConverterErrorType,
-    options?: { source?: any; fieldName?: string; originalError?: Error }
+    options?: {
+      source?: any;
+      fieldName?: string;
+      path?: (string | number)[];
+      cause?: unknown;
+      originalError?: Error;
+      issues?: ReadonlyArray<StandardSchemaV1.Issue>;
+    }
   ) {
+    const cause = options?.cause ?? options?.originalError;
     super(message);
     this.name = 'ConverterError';
     this.type = type;
+    if (cause !== undefined) this.cause = cause;
     this.source = options?.source;
-    this.fieldName = options?.fieldName;
-    this.originalError = options?.originalError;
+    this.path = options?.path ?? (options?.fieldName === undefined ? [] : [options.fieldName]);
+    this.fieldName = options?.fieldName ?? (options?.path?.length ? formatFieldPath(options.path) : undefined);
+    this.originalError = cause instanceof Error ? cause : undefined;
+    this.issues = options?.issues;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, ConverterError);
@@ -142,6 +192,195 @@ export class ConverterError extends Error {
   }
 }
 
+/**
+ * Formats an error path as a field name, such as `items[3].price`
+ */
+const formatFieldPath = (path: (string | number)[]): string =>
+  path.reduce<string>(
+    (name, segment) => (typeof segment === 'number' ? `${name}[${segment}]` : name ? `${name}.${segment}` : segment),
+    ''
+  );
+
+/**
+ * A single problem from a {@link ConverterError}, in a shape suitable for API responses
+ *
+ * @interface ConverterErrorRecord
+ */
+export interface ConverterErrorRecord {
+  /** @type {(string | number)[]} path Location of the problem in the target object */
+  path: (string | number)[];
+
+  /** @type {ConverterErrorType} type The type of error */
+  type: ConverterErrorType;
+
+  /** @type {string} message Description of the problem */
+  message: string;
+}
+
+/**
+ * Error holding several {@link ConverterError}s raised by one conversion
+ *
+ * @class AggregateConverterError
+ * @extends {ConverterError}
+ */
+export class AggregateConverterError extends ConverterError {
+  /** @type {ConverterError[]} errors The individual errors */
+  errors: ConverterError[];
+
+  /**
+   * Creates a new AggregateConverterError instance
+   *
+   * @param {ConverterError[]} errors - The individual errors
+   * @param {string} [message] - The error message; defaults to a summary of `errors`
+   * @example
+   * const { errors } = await converter.safeConvert(input);
+   * if (errors.length > 0) throw new AggregateConverterError(errors);
+   */
+  constructor(errors: ConverterError[], message?: string) {
+    super(
+      message ?? `${errors.length} conversion errors: ${errors.map((error) => error.message).join('; ')}`,
+      ConverterErrorType.AGGREGATE,
+      { source: errors[0]?.source }
+    );
+    this.name = 'AggregateConverterError';
+    this.errors = errors;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AggregateConverterError);
+    }
+  }
+}
+
+/**
+ * Flattens converter errors into `{ path, type, message }` records
+ *
+ * Aggregate errors are expanded into their individual errors, and schema validation errors into
+ * one record per issue. The message is the one of the underlying cause when that is a plain
+ * error (such as the error thrown by a field function), and the converter error's own otherwise.
+ *
+ * @function flattenErrors
+ * @param {ConverterError | ConverterError[]} error - The error or errors to flatten
+ * @returns {ConverterErrorRecord[]} One record per problem
+ * @example
+ * const result = await converter.safeConvert(body);
+ * if (!result.ok) return response.status(422).json({ errors: flattenErrors(result.errors) });
+ */
+export function flattenErrors(error: ConverterError | ConverterError[]): ConverterErrorRecord[] {
+  if (Array.isArray(error)) return error.flatMap(flattenErrors);
+  if (error instanceof AggregateConverterError) return flattenErrors(error.errors);
+  if (error.issues?.length) {
+    return error.issues.map((issue) => ({
+      path: [
+        ...error.path,
+        ...(issue.path ?? []).map((segment) => {
+          const key = typeof segment === 'object' ? segment.key : segment;
+          return typeof key === 'number' ? key : String(key);
+        }),
+      ],
+      type: error.type,
+      message: issue.message,
+    }));
+  }
+  const { cause } = error;
+  return [
+    {
+      path: [...error.path],
+      type: error.type,
+      message: cause instanceof Error && !(cause instanceof ConverterError) ? cause.message : error.message,
+    },
+  ];
+}
+
+/**
+ * The Standard Schema interface, implemented by zod, valibot, arktype and other validation libraries
+ *
+ * Copied from the specification at https://standardschema.dev so that no validation library is
+ * a dependency of this one.
+ *
+ * @interface StandardSchemaV1
+ * @template Input - The type the schema accepts
+ * @template Output - The type the schema produces
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  /** The Standard Schema properties */
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  /** The Standard Schema properties interface */
+  export interface Props<Input = unknown, Output = Input> {
+    /** The version number of the standard */
+    readonly version: 1;
+    /** The vendor name of the schema library */
+    readonly vendor: string;
+    /** Validates unknown input values */
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    /** Inferred types associated with the schema */
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  /** The result interface of the validate function */
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  /** The result interface if validation succeeds */
+  export interface SuccessResult<Output> {
+    /** The typed output value */
+    readonly value: Output;
+    /** The non-existent issues */
+    readonly issues?: undefined;
+  }
+
+  /** The result interface if validation fails */
+  export interface FailureResult {
+    /** The issues of failed validation */
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  /** The issue interface of the failure output */
+  export interface Issue {
+    /** The error message of the issue */
+    readonly message: string;
+    /** The path of the issue, if any */
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  /** The path segment interface of the issue */
+  export interface PathSegment {
+    /** The key representing a path segment */
+    readonly key: PropertyKey;
+  }
+
+  /** The Standard Schema types interface */
+  export interface Types<Input = unknown, Output = Input> {
+    /** The input type of the schema */
+    readonly input: Input;
+    /** The output type of the schema */
+    readonly output: Output;
+  }
+
+  /** Infers the input type of a Standard Schema */
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['input'];
+
+  /** Infers the output type of a Standard Schema */
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['output'];
+}
+
+/**
+ * Formats schema issues as `path: message` pairs, e.g. `address.city: Required; items[0].sku: Expected string`
+ */
+const formatIssues = (issues: ReadonlyArray<StandardSchemaV1.Issue>): string =>
+  issues
+    .map(({ message, path = [] }) => {
+      const formatted = path
+        .map((segment) => (typeof segment === 'object' ? segment.key : segment))
+        .reduce<string>(
+          (acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${String(key)}` : String(key)),
+          ''
+        );
+      return formatted ? `${formatted}: ${message}` : message;
+    })
+    .join('; ');
+
 /**
  * Represents a generic object with string keys and any values
  *
@@ -182,6 +421,19 @@ export class Many<T> extends Array<T> {
   }
 }
 
+/**
+ * Context keys read by the converter itself
+ *
+ * Pass `signal` in the additional context of a call to make the conversion cancellable. The
+ * same context, signal included, reaches every registered function and nested converter.
+ *
+ * @interface AbortableContext
+ */
+export interface AbortableContext {
+  /** @type {AbortSignal} [signal] Cancels the conversion when aborted */
+  signal?: AbortSignal;
+}
+
 /**
  * Function type for converting a single field
  *
@@ -204,7 +456,7 @@ export type FieldFunction<
   Ctx extends GenericObject = GenericObject,
   ToObj extends GenericObject = GenericObject,
   T = any
-> = (fromObj: FromObj, ctx: Ctx, toObj: Partial<ToObj>) => Promise<T> | T;
+> = (fromObj: FromObj, ctx: Ctx & AbortableContext, toObj: Partial<ToObj>) => Promise<T> | T;
 
 /**
  * Function type for transforming an entire object
@@ -226,7 +478,7 @@ export type ObjectFunction<
   Ctx extends GenericObject = GenericObject
 > = (
   fromObj: FromObj,
-  ctx: Ctx,
+  ctx: Ctx & AbortableContext,
   toObj: Partial<ToObj>
 ) => Promise<Partial<ToObj> | void> | Partial<ToObj> | void;
 
@@ -252,7 +504,7 @@ export type HookFunction<
   ToObj extends GenericObject = GenericObject,
   Ctx extends GenericObject = GenericObject
 > = (
-  ctx: Ctx,
+  ctx: Ctx & AbortableContext,
   fromObj: FromObj,
   toObj: Partial<ToObj>,
   add: AddFunction
@@ -523,6 +775,99 @@ export function createPartialValidator<T extends GenericObject>(): PartialValida
   };
 }
 
+/**
+ * How to retry a registered function that failed
+ *
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /** @type {number} retries Number of retries after the first attempt */
+  retries: number;
+
+  /**
+   * @type {number | ((attempt: number) => number)} [backoff=0] Milliseconds to wait before each
+   * retry, or a function of the number of the attempt that failed
+   */
+  backoff?: number | ((attempt: number) => number);
+
+  /** @type {(error: unknown, attempt: number) => boolean} [retryIf] Whether an error is retryable; all are by default */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Options for running any registered function
+ *
+ * A timeout only applies to functions that return a promise, and it does not stop the
+ * function itself; the conversion just stops waiting for it.
+ *
+ * @interface ExecutionOptions
+ */
+export interface ExecutionOptions {
+  /** @type {number} [timeout] Milliseconds each attempt may take before it fails with a `TIMEOUT` error */
+  timeout?: number;
+
+  /** @type {number | RetryOptions} [retry] Number of retries, or the full retry options */
+  retry?: number | RetryOptions;
+}
+
+/**
+ * Options for a single field registration
+ *
+ * @interface FieldOptions
+ * @template ToObj - Target object type
+ */
+export interface FieldOptions<ToObj extends GenericObject = GenericObject, T = any> extends ExecutionOptions {
+  /** @type {boolean} [required] Whether the field is required */
+  required?: boolean;
+
+  /**
+   * @type {(keyof ToObj)[]} [dependsOn] Target fields that must be converted before this one.
+   * Fields are ordered by their dependencies instead of purely by registration order.
+   */
+  dependsOn?: (keyof ToObj)[];
+
+  /** @type {ErrorPolicy<T>} [onError] What to do when the field fails; defaults to the converter's `errorHandling` */
+  onError?: ErrorPolicy<T>;
+}
+
+/**
+ * What to do when a single registration fails
+ *
+ * - `'throw'` fails the conversion, whatever the converter's `errorHandling` is
+ * - `'skip'` leaves the registration's result out and continues
+ * - `{ fallback }` uses the given value instead
+ * - a function computes the value to use from the error
+ *
+ * @typedef ErrorPolicy
+ * @template T - Type of the fallback value
+ */
+export type ErrorPolicy<T = any> =
+  | 'throw'
+  | 'skip'
+  | { fallback: T }
+  | ((error: ConverterError) => T | Promise<T>);
+
+/**
+ * Options for a single object function registration
+ *
+ * @interface ObjectOptions
+ * @template ToObj - Target object type
+ */
+export interface ObjectOptions<ToObj extends GenericObject = GenericObject> extends ExecutionOptions {
+  /** @type {ErrorPolicy<Partial<ToObj>>} [onError] What to do when the object function fails */
+  onError?: ErrorPolicy<Partial<ToObj>>;
+}
+
+/**
+ * Options for a single pre- or post-hook registration
+ *
+ * @interface HookOptions
+ */
+export interface HookOptions extends ExecutionOptions {
+  /** @type {'throw' | 'skip'} [onError] What to do when the hook fails */
+  onError?: 'throw' | 'skip';
+}
+
 /**
  * Definition function type for configuring a converter
  *
@@ -536,7 +881,7 @@ export function createPartialValidator<T extends GenericObject>(): PartialValida
  * @param {function} obj - Registers an object transformer
  * @param {function} pre - Registers a pre-hook
  * @param {function} post - Registers a post-hook
- * @param {AddFunction} add - Adds additional objects
+ * @param {AddFunction} add - Adds additional objects to the conversion that is currently running
  * @param {Partial<ToObj>} toObjDefaults - Default target object values
  * @param {Ctx} ctx - The context object
  */
@@ -548,11 +893,11 @@ export type ConverterDefinition<
   field: <K extends keyof ToObj>(
     name: K,
     fn: FieldFunction<FromObj, Ctx, ToObj, ToObj[K]>,
-    options?: { required?: boolean }
+    options?: FieldOptions<ToObj, ToObj[K]>
   ) => void,
-  obj: (fn: ObjectFunction<FromObj, ToObj, Ctx>, executeFns?: boolean) => void,
-  pre: (fn: HookFunction<FromObj, ToObj, Ctx>, name?: string) => void,
-  post: (fn: HookFunction<FromObj, ToObj, Ctx>, name?: string) => void,
+  obj: (fn: ObjectFunction<FromObj, ToObj, Ctx>, executeFns?: boolean, options?: ObjectOptions<ToObj>) => void,
+  pre: (fn: HookFunction<FromObj, ToObj, Ctx>, name?: string, options?: HookOptions) => void,
+  post: (fn: HookFunction<FromObj, ToObj, Ctx>, name?: string, options?: HookOptions) => void,
   add: AddFunction,
   toObjDefaults: Partial<ToObj>,
   ctx: Ctx
@@ -564,8 +909,13 @@ export type ConverterDefinition<
  * @interface ConverterOptions
  * @template ToObj - Target object type
  * @template Ctx - Context object type
+ * @template FromObj - Source object type
  */
-export interface ConverterOptions<ToObj extends GenericObject, Ctx extends GenericObject> {
+export interface ConverterOptions<
+  ToObj extends GenericObject,
+  Ctx extends GenericObject,
+  FromObj extends GenericObject = GenericObject
+> {
   /** @type {Partial<ToObj>} [defaults] Default values for the target object */
   defaults?: Partial<ToObj>;
 
@@ -581,8 +931,165 @@ export interface ConverterOptions<ToObj extends GenericObject, Ctx extends Gener
   /** @type {(keyof ToObj)[]} [requiredFields] List of required fields */
   requiredFields?: (keyof ToObj)[];
 
-  /** @type {'throw' | 'warn' | 'ignore'} [errorHandling] Error handling strategy */
-  errorHandling?: 'throw' | 'warn' | 'ignore';
+  /**
+   * @type {'throw' | 'warn' | 'ignore' | 'collect'} [errorHandling] Error handling strategy.
+   * `'warn'` logs through `logger.warn`, `'ignore'` is silent, and `'collect'` attaches the
+   * errors to the result, where {@link getConversionErrors} reads them.
+   */
+  errorHandling?: 'throw' | 'warn' | 'ignore' | 'collect';
+
+  /**
+   * @type {boolean} [parallelFields=false] Run fields concurrently when their dependencies allow it.
+   * Fields without `dependsOn` are then treated as independent of every other field.
+   */
+  parallelFields?: boolean;
+
+  /**
+   * @type {StandardSchemaV1} [inputSchema] Schema the source object is validated against before conversion.
+   * Fields receive the schema's output value. Failures raise `INVALID_SOURCE` errors.
+   */
+  inputSchema?: StandardSchemaV1<unknown, FromObj>;
+
+  /**
+   * @type {StandardSchemaV1} [outputSchema] Schema the primary converted object is validated against.
+   * The schema's output value is returned. Failures raise `VALIDATION` errors.
+   */
+  outputSchema?: StandardSchemaV1<unknown, ToObj>;
+
+  /**
+   * @type {boolean | CacheOptions<FromObj, ToObj, Ctx>} [cache] Reuse the results of earlier
+   * conversions. `true` caches by source object identity.
+   */
+  cache?: boolean | CacheOptions<FromObj, ToObj, Ctx>;
+
+  /** @type {string} [name='converter'] Name of the converter in traces */
+  name?: string;
+
+  /**
+   * @type {Instrumentation} [instrumentation] Receives the start and end of the conversion and of
+   * each of its steps. Without it, steps are not timed at all.
+   */
+  instrumentation?: Instrumentation;
+
+  /**
+   * @type {boolean} [graph=false] Preserve identity within a call: every conversion nested in it
+   * maps the same source object to the same target object, so shared and cyclic references in
+   * the source become shared and cyclic references in the target
+   */
+  graph?: boolean;
+}
+
+/**
+ * A step of a conversion reported to {@link Instrumentation}
+ *
+ * @interface TraceStep
+ */
+export interface TraceStep {
+  /** @type {string} kind What the step runs */
+  kind: 'conversion' | 'pre-hook' | 'field' | 'object' | 'post-hook' | 'validation';
+
+  /**
+   * @type {string} name The converter name for conversions, the field or hook name, `'object function'`,
+   * or `'input schema'`, `'required fields'` and `'output schema'` for validation
+   */
+  name: string;
+
+  /** @type {TraceStep} [parent] The conversion the step belongs to, or that a nested conversion ran in */
+  parent?: TraceStep;
+}
+
+/**
+ * How a step of a conversion ended, reported to {@link Instrumentation}
+ *
+ * @interface TraceStepEnd
+ */
+export interface TraceStepEnd {
+  /** @type {'success' | 'error' | 'cancelled'} outcome How the step ended */
+  outcome: 'success' | 'error' | 'cancelled';
+
+  /** @type {number} duration Milliseconds the step took */
+  duration: number;
+
+  /** @type {unknown} [error] The error the step failed with (optional) */
+  error?: unknown;
+
+  /** @type {ConverterErrorType} [errorType] The type of the error, when it is a `ConverterError` (optional) */
+  errorType?: ConverterErrorType;
+}
+
+/**
+ * Callbacks for tracing and timing the steps of conversions
+ *
+ * A step ends once, whether it succeeded or not. A failed step may still be recovered from,
+ * depending on the error policy.
+ *
+ * @interface Instrumentation
+ */
+export interface Instrumentation {
+  /** Called when a step starts */
+  onStart?: (step: TraceStep) => void;
+
+  /** Called when a step ends, with the same `step` object */
+  onEnd?: (step: TraceStep, end: TraceStepEnd) => void;
+}
+
+/**
+ * A store for cached conversion results
+ *
+ * A `Map` fits this interface, as do most LRU cache libraries.
+ *
+ * @interface ConverterCache
+ * @template K - Key type
+ * @template V - Value type
+ */
+export interface ConverterCache<K = unknown, V = unknown> {
+  /** Returns the value stored for `key`, or `undefined` */
+  get(key: K): V | undefined;
+
+  /** Stores `value` for `key` */
+  set(key: K, value: V): void;
+
+  /** Removes the value stored for `key` */
+  delete(key: K): void | boolean;
+
+  /** Removes every value */
+  clear(): void;
+}
+
+/**
+ * Options for caching the results of a converter
+ *
+ * Results are cached after successful conversions only; `safeConvert` always runs the pipeline.
+ *
+ * @interface CacheOptions
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export interface CacheOptions<
+  FromObj extends GenericObject = GenericObject,
+  ToObj extends GenericObject = GenericObject,
+  Ctx extends GenericObject = GenericObject
+> {
+  /**
+   * @type {function} [key] Computes the cache key of a source object from it and the merged context.
+   * Returning `undefined` skips the cache for that call. Defaults to the source object itself, in
+   * which case calls with additional context other than `signal` are not cached, since their
+   * results may depend on it.
+   */
+  key?: (fromObj: FromObj, ctx: Ctx) => unknown;
+
+  /**
+   * @type {ConverterCache} [store] Where results are kept. Defaults to {@link createLruCache} when
+   * `key` is given, and otherwise to a `WeakMap` that holds results only as long as their source.
+   */
+  store?: ConverterCache<any, ToObj | Many<ToObj>>;
+
+  /**
+   * @type {'clone' | 'freeze'} [copy='clone'] Protects cached results from callers: `'clone'` hands
+   * out a deep copy on every call, `'freeze'` deeply freezes the result and hands out the same object
+   */
+  copy?: 'clone' | 'freeze';
 }
 
 /**
@@ -594,247 +1101,3217 @@ export interface ConverterOptions<ToObj extends GenericObject, Ctx extends Gener
  * @template A - First object type
  * @template B - Second object type
  */
-export interface BidirectionalConverter<A extends GenericObject, B extends GenericObject> {
+export interface BidirectionalConverter<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> {
   /**
    * Converts from A to B
    * @param {A} fromObj - The source object
+   * @param {Partial<Ctx>} [additionalCtx] - Additional context for this conversion
    * @returns {Promise<B | Many<B>>} The converted object(s)
    */
-  forward: (fromObj: A) => Promise<B | Many<B>>;
+  forward: (fromObj: A, additionalCtx?: Partial<Ctx>) => Promise<B | Many<B>>;
 
   /**
    * Converts from B to A
    * @param {B} fromObj - The source object
+   * @param {Partial<Ctx>} [additionalCtx] - Additional context for this conversion
    * @returns {Promise<A | Many<A>>} The converted object(s)
    */
-  reverse: (fromObj: B) => Promise<A | Many<A>>;
+  reverse: (fromObj: B, additionalCtx?: Partial<Ctx>) => Promise<A | Many<A>>;
 }
 
 /**
- * Creates a reusable converter function
+ * Mapping for a single field of a bidirectional converter
  *
- * Main entry point for defining and using converters with custom logic and options.
+ * `get` produces the B field from an A object, `set` produces the matching part of A from a B object.
  *
- * @function createConverter
- * @template FromObj - Source object type
- * @template ToObj - Target object type
+ * @interface FieldPair
+ * @template A - First object type
+ * @template B - Second object type
  * @template Ctx - Context object type
- * @param {ConverterDefinition<FromObj, ToObj, Ctx>} [fn] - Converter definition function
- * @param {ConverterOptions<ToObj, Ctx>} [options] - Configuration options
- * @returns {(fromObj: FromObj, additionalCtx?: Partial<Ctx>) => Promise<ToObj | Many<ToObj>>} The converter function
- * @example
- * // Define a simple converter
- * const convert = createConverter<{ name: string }, { name: string }>((field) => {
- *   field('name', (from) => from.name.toUpperCase(), { required: true });
- * }, { requiredFields: ['name'] });
+ * @template K - The B field being mapped
+ */
+export interface FieldPair<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject,
+  K extends keyof B
+> {
+  /** @type {FieldFunction} get Converts the field from A to B */
+  get: FieldFunction<A, Ctx, B, B[K]>;
+
+  /** @type {ObjectFunction} [set] Converts the field back from B to A */
+  set?: ObjectFunction<B, A, Ctx>;
+
+  /** @type {boolean} [oneWay] Marks the field as intentionally forward-only */
+  oneWay?: boolean;
+}
+
+/**
+ * Function type for registering field pairs on a bidirectional converter
  *
- * // Use the converter
- * async function example() {
- *   const result = await convert({ name: 'john' });
- *   console.log(result); // { name: 'JOHN' }
- * }
+ * Accepts either two dot paths for a plain rename, such as `pair('address.city', 'city')`, or a B
+ * key with a {@link FieldPair}.
+ *
+ * @interface PairFunction
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
  */
-export function createConverter<
-  FromObj extends GenericObject,
-  ToObj extends GenericObject,
-  Ctx extends GenericObject = GenericObject
->(
-  fn: ConverterDefinition<FromObj, ToObj, Ctx> = () => {},
-  options: ConverterOptions<ToObj, Ctx> = {}
-): (fromObj: FromObj, additionalCtx?: Partial<Ctx>) => Promise<ToObj | Many<ToObj>> {
-  const {
-    defaults = {} as Partial<ToObj>,
-    context = {} as Ctx,
-    mergeStrategy = defaultMergeStrategy,
-    logger = noopLogger,
-    requiredFields = [],
-    errorHandling = 'throw',
-  } = options;
+export interface PairFunction<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject
+> {
+  /**
+   * Maps `aPath` on A to `bPath` on B without transformation
+   * @param {TargetPath<A>} aPath - The field or dot path on A
+   * @param {TargetPath<B>} bPath - The field or dot path on B
+   */
+  <PA extends TargetPath<A>, PB extends TargetPath<B>>(aPath: PA, bPath: PB): void;
 
-  const validator = createPartialValidator<ToObj>();
-  const fieldFns: [keyof ToObj, FieldFunction<FromObj, Ctx, ToObj, any>, { required?: boolean }][] = [];
-  const objectFns: [ObjectFunction<FromObj, ToObj, Ctx>, boolean][] = [];
-  const preHooks: [HookFunction<FromObj, ToObj, Ctx>, string][] = [];
-  const postHooks: [HookFunction<FromObj, ToObj, Ctx>, string][] = [];
-  const additional: GenericObject[] = [];
+  /**
+   * Maps a B field with explicit conversions in both directions
+   * @param {keyof B} name - The field on B
+   * @param {FieldPair} mapping - The forward and reverse conversions
+   */
+  <K extends keyof B>(name: K, mapping: FieldPair<A, B, Ctx, K>): void;
+}
 
-  const add = (...args: GenericObject[]): GenericObject[] => {
-    additional.push(...args.map((v) => mergeStrategy<ToObj>({ ...defaults } as Partial<ToObj>, v as Partial<ToObj>)));
-    return additional;
-  };
+/**
+ * Hooks for a bidirectional converter, one per direction
+ *
+ * @interface DirectionalHooks
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ */
+export interface DirectionalHooks<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject
+> {
+  /** @type {HookFunction} [forward] Hook run when converting from A to B */
+  forward?: HookFunction<A, B, Ctx>;
+
+  /** @type {HookFunction} [reverse] Hook run when converting from B to A */
+  reverse?: HookFunction<B, A, Ctx>;
+}
+
+/**
+ * Definition function type for configuring a bidirectional converter
+ *
+ * @typedef {function} BidirectionalDefinition
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ * @param {PairFunction} pair - Registers a field pair
+ * @param {function} pre - Registers pre-hooks for either direction
+ * @param {function} post - Registers post-hooks for either direction
+ * @param {Ctx} ctx - The context object
+ */
+export type BidirectionalDefinition<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject
+> = (
+  pair: PairFunction<A, B, Ctx>,
+  pre: (hooks: DirectionalHooks<A, B, Ctx>, name?: string) => void,
+  post: (hooks: DirectionalHooks<A, B, Ctx>, name?: string) => void,
+  ctx: Ctx
+) => void;
+
+/**
+ * Options for configuring a bidirectional converter
+ *
+ * Shared options apply to both directions; `forward` and `reverse` override them per direction.
+ *
+ * @interface BidirectionalConverterOptions
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ */
+export interface BidirectionalConverterOptions<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject
+> extends Omit<
+    ConverterOptions<GenericObject, Ctx>,
+    'defaults' | 'requiredFields' | 'inputSchema' | 'outputSchema' | 'cache'
+  > {
+  /** @type {ConverterOptions<B, Ctx, A>} [forward] Options for the A to B direction */
+  forward?: ConverterOptions<B, Ctx, A>;
+
+  /** @type {ConverterOptions<A, Ctx, B>} [reverse] Options for the B to A direction */
+  reverse?: ConverterOptions<A, Ctx, B>;
+}
+
+/**
+ * Options for converting a batch of objects
+ *
+ * @interface BatchOptions
+ * @template Ctx - Context object type
+ */
+export interface BatchOptions<Ctx extends GenericObject = GenericObject> {
+  /** @type {number} [concurrency=Infinity] Maximum number of conversions in flight at once */
+  concurrency?: number;
+
+  /** @type {boolean} [stopOnError=false] Stop starting new conversions after the first failure */
+  stopOnError?: boolean;
+
+  /** @type {Partial<Ctx>} [context] Additional context passed to every conversion */
+  context?: Partial<Ctx>;
+
+  /**
+   * @type {AbortSignal} [signal] Cancels the conversions in flight and stops starting new ones;
+   * items that were never started are reported as `skipped`
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of converting a single item of a batch
+ *
+ * Items that were never started because of `stopOnError` are reported as `skipped`.
+ *
+ * @typedef {Object} BatchItemResult
+ * @template ToObj - Target object type
+ */
+export type BatchItemResult<ToObj extends GenericObject> =
+  | { status: 'fulfilled'; index: number; value: ToObj; additional: ToObj[] }
+  | { status: 'rejected'; index: number; error: ConverterError }
+  | { status: 'skipped'; index: number };
+
+/**
+ * Result of converting a batch of objects
+ *
+ * @interface BatchResult
+ * @template ToObj - Target object type
+ */
+export interface BatchResult<ToObj extends GenericObject> {
+  /** @type {BatchItemResult<ToObj>[]} results Per-item outcomes, in input order */
+  results: BatchItemResult<ToObj>[];
+
+  /** @type {number} succeeded Number of items converted successfully */
+  succeeded: number;
+
+  /** @type {number} failed Number of items whose conversion failed */
+  failed: number;
+
+  /** @type {number} skipped Number of items not converted because of `stopOnError` or `signal` */
+  skipped: number;
+}
+
+/**
+ * Result of {@link Converter.safeConvert}
+ *
+ * The whole pipeline always runs, unless the conversion is cancelled. Errors that the converter's `errorHandling` would have thrown
+ * are reported in `errors`; errors it would have continued past (`'warn'`, `'ignore'` or `'collect'`)
+ * are reported in `warnings`.
+ *
+ * @interface SafeConvertResult
+ * @template ToObj - Target object type
+ */
+export interface SafeConvertResult<ToObj extends GenericObject> {
+  /** @type {boolean} ok True if there are no errors */
+  ok: boolean;
+
+  /** @type {ToObj | Many<ToObj>} value The converted object(s), built from every step that succeeded */
+  value: ToObj | Many<ToObj>;
+
+  /** @type {ConverterError[]} errors Errors that would have failed the conversion */
+  errors: ConverterError[];
+
+  /** @type {ConverterError[]} warnings Errors that would only have been logged */
+  warnings: ConverterError[];
+}
+
+/**
+ * A converter function returned by {@link createConverter}
+ *
+ * @interface Converter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export interface Converter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> {
+  /**
+   * Converts a single object
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx> & AbortableContext} [additionalCtx] - Additional context for this conversion
+   * @returns {Promise<ToObj | Many<ToObj>>} The converted object(s)
+   */
+  (fromObj: FromObj, additionalCtx?: Partial<Ctx> & AbortableContext): Promise<ToObj | Many<ToObj>>;
+
+  /**
+   * Converts many objects, reporting the outcome of each instead of failing on the first error
+   * @param {Iterable<FromObj>} items - The source objects
+   * @param {BatchOptions<Ctx>} [options] - Batch options
+   * @returns {Promise<BatchResult<ToObj>>} Per-item results in input order, with aggregate counts
+   */
+  convertAll: (items: Iterable<FromObj>, options?: BatchOptions<Ctx>) => Promise<BatchResult<ToObj>>;
+
+  /**
+   * Converts a single object without throwing, collecting every error instead
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx> & AbortableContext} [additionalCtx] - Additional context for this conversion
+   * @returns {Promise<SafeConvertResult<ToObj>>} The result with all collected errors
+   * @throws {ConverterError} Only with type `CANCELLED`, when the conversion is cancelled
+   */
+  safeConvert: (fromObj: FromObj, additionalCtx?: Partial<Ctx> & AbortableContext) => Promise<SafeConvertResult<ToObj>>;
+
+  /**
+   * Removes the cached result for a source object; does nothing without the `cache` option
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx>} [additionalCtx] - The additional context it was converted with
+   */
+  invalidate: (fromObj: FromObj, additionalCtx?: Partial<Ctx>) => void;
+
+  /** Removes every cached result; does nothing without the `cache` option */
+  clearCache: () => void;
+}
+
+/**
+ * A synchronous converter function returned by {@link createSyncConverter}
+ *
+ * @interface SyncConverter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export interface SyncConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> {
+  /**
+   * Converts a single object
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx> & AbortableContext} [additionalCtx] - Additional context for this conversion
+   * @returns {ToObj | Many<ToObj>} The converted object(s)
+   */
+  (fromObj: FromObj, additionalCtx?: Partial<Ctx> & AbortableContext): ToObj | Many<ToObj>;
+
+  /**
+   * Converts a single object without throwing, collecting every error instead
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx> & AbortableContext} [additionalCtx] - Additional context for this conversion
+   * @returns {SafeConvertResult<ToObj>} The result with all collected errors
+   * @throws {ConverterError} With type `CANCELLED` when the conversion is cancelled, or `ASYNC_RESULT`
+   * if a registered function returns a promise
+   */
+  safeConvert: (fromObj: FromObj, additionalCtx?: Partial<Ctx> & AbortableContext) => SafeConvertResult<ToObj>;
+
+  /**
+   * Removes the cached result for a source object; does nothing without the `cache` option
+   * @param {FromObj} fromObj - The source object
+   * @param {Partial<Ctx>} [additionalCtx] - The additional context it was converted with
+   */
+  invalidate: (fromObj: FromObj, additionalCtx?: Partial<Ctx>) => void;
+
+  /** Removes every cached result; does nothing without the `cache` option */
+  clearCache: () => void;
+}
+
+/**
+ * Per-call state of a running conversion
+ */
+interface ConversionScope {
+  /** Identifies the converter running this call */
+  owner: object;
+  /** The conversion this call was started from, if any */
+  parent?: ConversionScope;
+  /** Additional objects added during this call */
+  additional: GenericObject[];
+  /** Adds objects to `additional` */
+  add: AddFunction;
+  /** Set by `safeConvert` to collect errors instead of throwing them */
+  issues?: { errors: ConverterError[]; warnings: ConverterError[] };
+  /**
+   * Targets already created in a `graph` call, by source object and then by converter. Shared
+   * by every conversion nested in that call.
+   */
+  graph?: Map<object, Map<object, GenericObject>>;
+  /** The target registered for this call in `graph`, filled in when the conversion completes */
+  target?: GenericObject;
+  /** The traced step of this call, when the converter has `instrumentation` */
+  trace?: TraceStep;
+}
+
+/**
+ * Keeps track of the innermost running conversion
+ */
+interface ConversionTracker {
+  /** The conversion the caller runs in, if any */
+  current(): ConversionScope | undefined;
+  /** Calls `fn` as part of `scope` */
+  run<R>(scope: ConversionScope, fn: () => R): R;
+}
+
+/**
+ * Tracks conversions with `AsyncLocalStorage` where the runtime provides one, so a conversion is
+ * still known after an `await` in a registered function. Elsewhere, such as in browsers, it is
+ * only known while a step of the conversion runs synchronously.
+ *
+ * Node.js versions without `process.getBuiltinModule` (before 20.16) load `node:async_hooks`
+ * asynchronously, so conversions started before it resolves are tracked synchronously.
+ */
+const createConversionTracker = (): ConversionTracker => {
+  type Storage = { getStore(): ConversionScope | undefined; run<R>(scope: ConversionScope, fn: () => R): R };
+  type StorageClass = new () => Storage;
+  type AsyncHooks = { AsyncLocalStorage?: StorageClass };
+  const runtime = globalThis as {
+    AsyncLocalStorage?: StorageClass;
+    process?: { versions?: { node?: string }; getBuiltinModule?: (id: string) => AsyncHooks | undefined };
+  };
+  const Storage = runtime.AsyncLocalStorage ?? runtime.process?.getBuiltinModule?.('node:async_hooks')?.AsyncLocalStorage;
+  let storage = Storage ? new Storage() : undefined;
+  if (!storage && runtime.process?.versions?.node !== undefined) {
+    // Not a literal, so bundlers targeting browsers leave the import alone
+    const asyncHooks = 'node:async_hooks';
+    import(/* webpackIgnore: true */ /* @vite-ignore */ asyncHooks).then(
+      ({ AsyncLocalStorage }: AsyncHooks) => {
+        if (AsyncLocalStorage) storage ??= new AsyncLocalStorage();
+      },
+      () => undefined
+    );
+  }
+
+  let active: ConversionScope | undefined;
+  return {
+    current: () => storage?.getStore() ?? active,
+    run: (scope, fn) => {
+      if (storage) return storage.run(scope, fn);
+      const previous = active;
+      active = scope;
+      try {
+        return fn();
+      } finally {
+        active = previous;
+      }
+    },
+  };
+};
+
+/**
+ * The innermost running conversion
+ */
+const runningConversion = createConversionTracker();
+
+/**
+ * Orders fields by their `dependsOn` declarations
+ *
+ * `order` is a topological order that otherwise keeps registration order. `waves` groups fields
+ * that only depend on fields in earlier waves, so each wave can run concurrently.
+ *
+ * @throws {ConverterError} If the dependencies contain a cycle
+ */
+const planFieldExecution = (
+  fields: { name: PropertyKey; dependsOn: PropertyKey[] }[],
+  logger: Logger
+): { order: number[]; waves: number[][] } => {
+  const indexesByName = new Map<PropertyKey, number[]>();
+  fields.forEach(({ name }, index) => indexesByName.set(name, [...(indexesByName.get(name) ?? []), index]));
+
+  const dependencies = fields.map(({ name, dependsOn }) =>
+    dependsOn.flatMap((dependency) => {
+      const indexes = indexesByName.get(dependency);
+      if (!indexes) {
+        logger.warn(`Field '${String(name)}' depends on '${String(dependency)}', which has no field converter`);
+      }
+      return indexes ?? [];
+    })
+  );
+
+  const order: number[] = [];
+  const done = new Set<number>();
+  while (order.length < fields.length) {
+    const next = fields.findIndex((_, index) => !done.has(index) && dependencies[index].every((d) => done.has(d)));
+    if (next === -1) {
+      // Every remaining field waits on another remaining field; walk the graph until a field repeats.
+      const path: number[] = [];
+      let current = fields.findIndex((_, index) => !done.has(index));
+      while (!path.includes(current)) {
+        path.push(current);
+        current = dependencies[current].find((d) => !done.has(d))!;
+      }
+      const cycle = [...path.slice(path.indexOf(current)), current].map((index) => String(fields[index].name));
+      throw new ConverterError(
+        `Circular field dependency: ${cycle.join(' -> ')}`,
+        ConverterErrorType.INVALID_FIELD,
+        { fieldName: cycle[0] }
+      );
+    }
+    order.push(next);
+    done.add(next);
+  }
+
+  const levels: number[] = [];
+  for (const index of order) {
+    levels[index] = Math.max(-1, ...dependencies[index].map((d) => levels[d])) + 1;
+  }
+  const waves: number[][] = [];
+  levels.forEach((level, index) => (waves[level] ??= []).push(index));
+
+  return { order, waves };
+};
+
+/**
+ * Runs `fn` over every item with at most `concurrency` calls in flight
+ *
+ * Stops taking new items once `shouldStop` returns true.
+ */
+const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await fn(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+};
+
+/**
+ * Creates the `convertAll` method for a converter function
+ */
+const createConvertAll = <FromObj extends GenericObject, ToObj extends GenericObject, Ctx extends GenericObject>(
+  converter: ConvertFunction<FromObj, ToObj, Ctx>,
+  logger: Logger
+): Converter<FromObj, ToObj, Ctx>['convertAll'] => async (
+  items: Iterable<FromObj>,
+  { concurrency = Infinity, stopOnError = false, context = {}, signal }: BatchOptions<Ctx> = {}
+): Promise<BatchResult<ToObj>> => {
+  const batchCtx = signal ? { ...context, signal } : context;
+  const sources = Array.from(items);
+  const results: BatchItemResult<ToObj>[] = sources.map((_, index) => ({ status: 'skipped', index }));
+  let failed = 0;
+
+  logger.debug(`Converting batch of ${sources.length} objects`, { concurrency, stopOnError });
+  await runWithConcurrency(
+    sources,
+    concurrency,
+    async (source, index) => {
+      try {
+        const result = await converter(source, batchCtx);
+        results[index] = { status: 'fulfilled', index, value: getPrimary(result), additional: getAdditional(result) };
+      } catch (err) {
+        failed++;
+        const error = err instanceof ConverterError
+          ? err
+          : new ConverterError(
+              `Error converting batch item ${index}: ${(err as Error).message}`,
+              ConverterErrorType.OBJECT_CONVERSION,
+              { source, cause: err }
+            );
+        results[index] = { status: 'rejected', index, error };
+      }
+    },
+    () => (stopOnError && failed > 0) || !!signal?.aborted
+  );
+
+  const succeeded = results.filter((result) => result.status === 'fulfilled').length;
+  const skipped = sources.length - succeeded - failed;
+  logger.info('Batch conversion complete', { succeeded, failed, skipped });
+  return { results, succeeded, failed, skipped };
+};
+
+/**
+ * A step of the conversion pipeline, handed to a driver to resolve
+ *
+ * `await` steps carry the value returned by a registered function, `all` steps carry
+ * sub-pipelines that may run concurrently.
+ */
+type PipelineStep = { await: unknown; label: string } | { all: Pipeline<unknown>[] };
+
+/**
+ * The conversion pipeline, written once and run by either {@link driveAsync} or {@link driveSync}
+ */
+type Pipeline<T> = Generator<PipelineStep, T, any>;
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+
+/**
+ * Runs a pipeline, awaiting every step and running `all` steps concurrently
+ */
+const driveAsync = async <T>(pipeline: Pipeline<T>): Promise<T> => {
+  let step = pipeline.next();
+  while (!step.done) {
+    const current = step.value;
+    let input: unknown;
+    try {
+      input = 'all' in current ? await Promise.all(current.all.map(driveAsync)) : await current.await;
+    } catch (err) {
+      step = pipeline.throw(err);
+      continue;
+    }
+    step = pipeline.next(input);
+  }
+  return step.value;
+};
+
+/**
+ * Runs a pipeline synchronously
+ *
+ * @throws {ConverterError} If a step returned a thenable
+ */
+const driveSync = <T>(pipeline: Pipeline<T>): T => {
+  try {
+    let step = pipeline.next();
+    while (!step.done) {
+      const current = step.value;
+      if ('all' in current) {
+        step = pipeline.next(current.all.map(driveSync));
+        continue;
+      }
+      if (isThenable(current.await)) {
+        // Nobody will await it, so keep a rejection from surfacing as unhandled.
+        current.await.then(undefined, () => {});
+        throw new ConverterError(
+          `The ${current.label} returned a promise, which a synchronous converter cannot await`,
+          ConverterErrorType.ASYNC_RESULT
+        );
+      }
+      step = pipeline.next(current.await);
+    }
+    return step.value;
+  } catch (err) {
+    pipeline.return(undefined as T);
+    throw err;
+  }
+};
+
+/**
+ * Runs every step of `pipeline`, including the pipelines of its `all` steps, as part of `scope`
+ */
+function* inScope<T>(scope: ConversionScope, pipeline: Pipeline<T>): Pipeline<T> {
+  let resume = (): IteratorResult<PipelineStep, T> => pipeline.next();
+  try {
+    for (;;) {
+      const { done, value } = runningConversion.run(scope, resume);
+      if (done) return value;
+      try {
+        const input: unknown = yield 'all' in value ? { all: value.all.map((branch) => inScope(scope, branch)) } : value;
+        resume = () => pipeline.next(input);
+      } catch (err) {
+        resume = () => pipeline.throw(err);
+      }
+    }
+  } finally {
+    // Closes `pipeline` when a driver gives up on this one
+    pipeline.return(undefined as T);
+  }
+}
+
+/**
+ * Reports the end of a pipeline to `end`, however it ends
+ */
+function* traceConversion<T>(pipeline: Pipeline<T>, end: (error?: unknown) => void): Pipeline<T> {
+  try {
+    const result: T = yield* pipeline;
+    end();
+    return result;
+  } catch (err) {
+    end(err);
+    throw err;
+  }
+}
+
+/**
+ * A converter definition that has been registered and can be run by a driver
+ */
+interface ConverterEngine<FromObj extends GenericObject, ToObj extends GenericObject, Ctx extends GenericObject> {
+  logger: Logger;
+  run: <R>(
+    drive: (pipeline: Pipeline<ToObj | Many<ToObj>>) => R,
+    fromObj: FromObj,
+    additionalCtx: Partial<Ctx>,
+    issues?: ConversionScope['issues']
+  ) => R;
+  invalidate: (fromObj: FromObj, additionalCtx?: Partial<Ctx>) => void;
+  clearCache: () => void;
+}
+
+/** Key of the non-enumerable property holding the errors collected by `errorHandling: 'collect'` */
+const collectedErrors = Symbol('collectedErrors');
+
+/**
+ * Attaches collected errors to a result, and to its primary object when it is a {@link Many},
+ * without adding enumerable keys
+ */
+const attachCollectedErrors = <T>(result: T, errors: ConverterError[]): T => {
+  for (const target of result instanceof Many ? [result, result[0]] : [result]) {
+    if (typeof target === 'object' && target !== null) {
+      Object.defineProperty(target, collectedErrors, { value: errors, configurable: true });
+    }
+  }
+  return result;
+};
+
+/**
+ * Deep copies the plain objects, arrays and dates of a result, keeping shared and cyclic
+ * references intact. Other objects are shared with the original.
+ */
+const cloneResult = <T>(value: T, seen = new Map<unknown, unknown>()): T => {
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (seen.has(value)) return seen.get(value) as T;
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+
+  // Keeps the prototype of arrays such as Many without running their constructor
+  const copy: any = Array.isArray(value) ? Object.setPrototypeOf([], Object.getPrototypeOf(value)) : {};
+  seen.set(value, copy);
+  for (const [key, item] of Object.entries(value)) copy[key] = cloneResult(item, seen);
+  const errors = (value as { [collectedErrors]?: ConverterError[] })[collectedErrors];
+  if (errors) Object.defineProperty(copy, collectedErrors, { value: errors, configurable: true });
+  return copy;
+};
+
+/** Deeply freezes the plain objects and arrays of a result */
+const freezeResult = <T>(value: T): T => {
+  if ((Array.isArray(value) || isPlainObject(value)) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const item of Object.values(value)) freezeResult(item);
+  }
+  return value;
+};
+
+/**
+ * Creates the result cache of a converter with the `cache` option
+ */
+const createResultCache = <FromObj extends GenericObject, ToObj extends GenericObject, Ctx extends GenericObject>(
+  { key: keyOf, store, copy = 'clone' }: CacheOptions<FromObj, ToObj, Ctx>,
+  context: Ctx
+) => {
+  type Result = ToObj | Many<ToObj>;
+  let byIdentity = new WeakMap<object, Result>();
+  const entries: ConverterCache<unknown, Result> =
+    store ??
+    (keyOf
+      ? createLruCache<unknown, Result>()
+      : {
+          get: (key) => byIdentity.get(key as object),
+          set: (key, value) => {
+            byIdentity.set(key as object, value);
+          },
+          delete: (key) => byIdentity.delete(key as object),
+          clear: () => {
+            byIdentity = new WeakMap();
+          },
+        });
+
+  return {
+    /** The key of a call, or `undefined` if it is not cached */
+    keyOf: (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): unknown => {
+      if (keyOf) return keyOf(fromObj, { ...context, ...additionalCtx } as Ctx);
+      const { signal, ...callCtx } = additionalCtx as AbortableContext;
+      if (Object.keys(callCtx).length > 0) return undefined;
+      return typeof fromObj === 'object' && fromObj !== null ? fromObj : undefined;
+    },
+    get: (key: unknown): Result | undefined => {
+      const value = entries.get(key);
+      return copy === 'clone' && value !== undefined ? cloneResult(value) : value;
+    },
+    /** Stores a result and returns what the caller should receive */
+    set: (key: unknown, value: Result): Result => {
+      if (copy === 'freeze') {
+        entries.set(key, freezeResult(value));
+      } else {
+        entries.set(key, cloneResult(value));
+      }
+      return value;
+    },
+    delete: (key: unknown) => {
+      entries.delete(key);
+    },
+    clear: () => entries.clear(),
+  };
+};
+
+/**
+ * Errors thrown by a child converter run inside a field, with the path they report
+ * relative to that field
+ */
+const childErrorPaths = new WeakMap<ConverterError, (string | number)[]>();
+
+/**
+ * Marks an error thrown by a child converter so the field running the child reports it under
+ * its own path, optionally below `prefix` (such as an array index)
+ */
+const markChildError = (err: unknown, prefix: (string | number)[] = []): unknown => {
+  if (err instanceof ConverterError) childErrorPaths.set(err, [...prefix, ...err.path]);
+  return err;
+};
+
+/**
+ * Wraps an error thrown while converting the field at `path`. Errors that already point at that
+ * field or a field nested below it are kept, and child converter errors are re-reported under the
+ * full path.
+ */
+const toFieldError = (path: (string | number)[], err: unknown, source?: unknown): ConverterError => {
+  const childPath = err instanceof ConverterError ? childErrorPaths.get(err) : undefined;
+  if (err instanceof ConverterError && childPath !== undefined) {
+    const fullPath = [...path, ...childPath];
+    const cause = childPath.length > 0 && err.cause instanceof Error ? err.cause : err;
+    return new ConverterError(`Error converting field '${formatFieldPath(fullPath)}': ${cause.message}`, err.type, {
+      source,
+      path: fullPath,
+      cause,
+      issues: err.issues,
+    });
+  }
+  return err instanceof ConverterError &&
+    (err.type === ConverterErrorType.FIELD_CONVERSION || err.type === ConverterErrorType.TIMEOUT) &&
+    path.every((segment, index) => err.path[index] === segment)
+    ? err
+    : new ConverterError(
+        `Error converting field '${formatFieldPath(path)}': ${(err as Error).message}`,
+        ConverterErrorType.FIELD_CONVERSION,
+        { source, path, cause: err }
+      );
+};
+
+/** The error a conversion of `source` rejects with once `signal` aborts */
+const cancellationError = (source: unknown, signal?: AbortSignal): ConverterError =>
+  new ConverterError('Conversion was cancelled', ConverterErrorType.CANCELLED, { source, cause: signal?.reason });
+
+/**
+ * Calls a registered function with its `timeout` and `retry` options. Stays synchronous while
+ * the function does and no backoff delay is needed. Once `signal` aborts, no further attempt
+ * is started and pending timers are cleared.
+ */
+const runAttempts = <T>(
+  call: () => T | PromiseLike<T>,
+  { timeout, retry }: ExecutionOptions,
+  label: string,
+  logger: Logger,
+  errorOptions: { source?: unknown; path?: (string | number)[] } = {},
+  signal?: AbortSignal
+): T | PromiseLike<T> => {
+  const { retries = 0, backoff = 0, retryIf = () => true }: Partial<RetryOptions> =
+    typeof retry === 'number' ? { retries: retry } : retry ?? {};
+  if (timeout === undefined && retries === 0) return call();
+
+  const cancelled = () => cancellationError(errorOptions.source, signal);
+  // Resolves after `ms`, or rejects as soon as the signal aborts
+  const wait = (ms: number): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+
+  const run = (attempt: number): T | Promise<T> => {
+    if (signal?.aborted) throw cancelled();
+    const retryOrThrow = (err: unknown): T | Promise<T> => {
+      if (signal?.aborted || attempt > retries || !retryIf(err, attempt)) throw err;
+      const delay = typeof backoff === 'function' ? backoff(attempt) : backoff;
+      logger.warn(`Retrying ${label} (attempt ${attempt + 1} of ${retries + 1})`, { error: err, attempt: attempt + 1, delay });
+      return delay > 0 ? wait(delay).then(() => run(attempt + 1)) : run(attempt + 1);
+    };
+
+    let result: T | PromiseLike<T>;
+    try {
+      result = call();
+    } catch (err) {
+      return retryOrThrow(err);
+    }
+    if (!isThenable(result)) return result;
+    if (timeout === undefined) return Promise.resolve(result).then(undefined, retryOrThrow);
+
+    const pending = result;
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      };
+      // An abandoned attempt does not keep its timer running
+      const abort = () => {
+        settle();
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        reject(new ConverterError(`Timed out after ${timeout}ms in ${label}`, ConverterErrorType.TIMEOUT, errorOptions));
+      }, timeout);
+      signal?.addEventListener('abort', abort, { once: true });
+      pending.then(
+        (value) => {
+          settle();
+          resolve(value);
+        },
+        (err) => {
+          settle();
+          reject(err);
+        }
+      );
+    }).then(undefined, retryOrThrow);
+  };
+
+  return run(1);
+};
+
+/** Settles like `value`, or rejects with `onAbort()` as soon as `signal` aborts */
+const raceAbort = (value: PromiseLike<unknown>, signal: AbortSignal, onAbort: () => unknown): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const abort = () => reject(onAbort());
+    signal.addEventListener('abort', abort, { once: true });
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', abort));
+  });
+
+/** A timeout error raised by {@link runAttempts}, reported as is instead of being wrapped */
+const isTimeoutError = (err: unknown): err is ConverterError =>
+  err instanceof ConverterError && err.type === ConverterErrorType.TIMEOUT;
+
+/**
+ * An async result rejected by {@link driveSync}, possibly wrapped by the step of a parent
+ * converter. It is a bug in the converter rather than bad data, so no error policy handles it.
+ */
+const isAsyncResult = (err: unknown): boolean =>
+  err instanceof ConverterError && (err.type === ConverterErrorType.ASYNC_RESULT || isAsyncResult(err.cause));
+
+/** Calls `fn` with `value`, waiting for it first only when it is a promise */
+const thenOrNow = <T, R>(value: T | PromiseLike<T>, fn: (value: T) => R | PromiseLike<R>): R | Promise<R> =>
+  isThenable(value) ? Promise.resolve(value).then(fn) : (fn(value as T) as R | Promise<R>);
+
+/**
+ * Runs a child converter call, marking the errors it throws with {@link markChildError}
+ */
+const runChild = <T>(run: () => T | PromiseLike<T>, prefix: (string | number)[] = []): T | Promise<T> => {
+  try {
+    const result = run();
+    return isThenable(result)
+      ? Promise.resolve(result).catch((err) => {
+          throw markChildError(err, prefix);
+        })
+      : result;
+  } catch (err) {
+    throw markChildError(err, prefix);
+  }
+};
+
+/** Maps `items` one after another, staying synchronous unless `fn` returns a promise */
+const mapInOrder = <T>(items: T[], fn: (item: T, index: number) => unknown): unknown[] | Promise<unknown[]> =>
+  items.reduce<unknown[] | Promise<unknown[]>>(
+    (acc, item, index) => thenOrNow(acc, (list) => thenOrNow(fn(item, index), (value) => [...list, value])),
+    []
+  );
+
+/**
+ * Registers a converter definition and builds the pipeline shared by async and sync converters
+ */
+function defineConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject
+>(
+  fn: ConverterDefinition<FromObj, ToObj, Ctx>,
+  options: ConverterOptions<ToObj, Ctx, FromObj>
+): ConverterEngine<FromObj, ToObj, Ctx> {
+  const {
+    defaults = {} as Partial<ToObj>,
+    context = {} as Ctx,
+    mergeStrategy = defaultMergeStrategy,
+    logger = noopLogger,
+    requiredFields = [],
+    errorHandling = 'throw',
+    parallelFields = false,
+    inputSchema,
+    outputSchema,
+    cache,
+    graph = false,
+    name: converterName = 'converter',
+    instrumentation,
+  } = options;
+
+  const validator = createPartialValidator<ToObj>();
+  const resultCache = cache ? createResultCache<FromObj, ToObj, Ctx>(cache === true ? {} : cache, context) : undefined;
+  const fieldFns: [keyof ToObj, FieldFunction<FromObj, Ctx, ToObj, any>, FieldOptions<ToObj>][] = [];
+  const objectFns: [ObjectFunction<FromObj, ToObj, Ctx>, boolean, ObjectOptions<ToObj>][] = [];
+  const preHooks: [HookFunction<FromObj, ToObj, Ctx>, string, HookOptions][] = [];
+  const postHooks: [HookFunction<FromObj, ToObj, Ctx>, string, HookOptions][] = [];
+
+  // Without instrumentation, steps are not timed or tracked at all
+  const startStep = instrumentation
+    ? (kind: TraceStep['kind'], name: string, parent?: TraceStep) => {
+        // A failing tracer is logged, never allowed to change the outcome of the conversion
+        const notify = (callback: 'onStart' | 'onEnd', report: () => void): void => {
+          try {
+            report();
+          } catch (error) {
+            logger.warn(`Instrumentation failed in ${callback} of ${kind} '${name}'`, { error });
+          }
+        };
+        const traced: TraceStep = { kind, name, parent };
+        const started = performance.now();
+        notify('onStart', () => instrumentation.onStart?.(traced));
+        const end = (error?: unknown): void => {
+          const duration = performance.now() - started;
+          if (error === undefined) {
+            notify('onEnd', () => instrumentation.onEnd?.(traced, { outcome: 'success', duration }));
+            return;
+          }
+          const errorType = error instanceof ConverterError ? error.type : undefined;
+          const outcome = errorType === ConverterErrorType.CANCELLED ? 'cancelled' : 'error';
+          notify('onEnd', () => instrumentation.onEnd?.(traced, { outcome, duration, error, errorType }));
+        };
+        return { step: traced, end };
+      }
+    : undefined;
+
+  // Each conversion gets its own `add` buffer. The definition-level `add` has no
+  // call to close over, so it resolves this converter's active call through `runningConversion`.
+  const owner = {};
+
+  const createScope = (issues?: ConversionScope['issues']): ConversionScope => {
+    const additional: GenericObject[] = [];
+    const add: AddFunction = (...args) => {
+      additional.push(...args.map((v) => mergeStrategy<ToObj>({ ...defaults } as Partial<ToObj>, v as Partial<ToObj>)));
+      return additional;
+    };
+    const parent = runningConversion.current();
+    const graphTargets = parent?.graph ?? (graph ? new Map() : undefined);
+    return { owner, parent, additional, add, issues, graph: graphTargets };
+  };
+
+  const add: AddFunction = (...args) => {
+    let scope = runningConversion.current();
+    while (scope && scope.owner !== owner) scope = scope.parent;
+    if (!scope) {
+      throw new ConverterError(
+        'add() can only be called while a conversion is running',
+        ConverterErrorType.INVALID_SOURCE
+      );
+    }
+    return scope.add(...args);
+  };
 
   const field = <K extends keyof ToObj>(
     name: K,
-    _fn: FieldFunction<FromObj, Ctx, ToObj, ToObj[K]>,
-    options: { required?: boolean } = {}
-  ): void => {
-    logger.debug(`Registering field converter: ${String(name)}`);
+    _fn: FieldFunction<FromObj, Ctx, ToObj, ToObj[K]>,
+    options: FieldOptions<ToObj, ToObj[K]> = {}
+  ): void => {
+    logger.debug(`Registering field converter: ${String(name)}`);
+    if (name === undefined || name === null || name === '') {
+      throw new ConverterError(
+        'Invalid field name: Field name cannot be empty',
+        ConverterErrorType.INVALID_FIELD
+      );
+    }
+    fieldFns.push([name, _fn, options]);
+  };
+
+  const obj = (_fn: ObjectFunction<FromObj, ToObj, Ctx>, executeFns = true, options: ObjectOptions<ToObj> = {}): void => {
+    logger.debug('Registering object converter');
+    if (typeof _fn !== 'function') {
+      throw new ConverterError(
+        'Invalid object function: Must be a function',
+        ConverterErrorType.OBJECT_CONVERSION
+      );
+    }
+    objectFns.push([_fn, executeFns, options]);
+  };
+
+  const pre = (
+    _fn: HookFunction<FromObj, ToObj, Ctx>,
+    name = _fn.name || 'anonymous',
+    options: HookOptions = {}
+  ): void => {
+    logger.debug(`Registering pre-hook: ${name}`);
+    if (typeof _fn !== 'function') {
+      throw new ConverterError(
+        'Invalid pre-hook: Must be a function',
+        ConverterErrorType.PRE_HOOK
+      );
+    }
+    preHooks.push([_fn, name, options]);
+  };
+
+  const post = (
+    _fn: HookFunction<FromObj, ToObj, Ctx>,
+    name = _fn.name || 'anonymous',
+    options: HookOptions = {}
+  ): void => {
+    logger.debug(`Registering post-hook: ${name}`);
+    if (typeof _fn !== 'function') {
+      throw new ConverterError(
+        'Invalid post-hook: Must be a function',
+        ConverterErrorType.POST_HOOK
+      );
+    }
+    postHooks.push([_fn, name, options]);
+  };
+
+  fn(field, obj, pre, post, add, defaults, context);
+  const { order, waves } = planFieldExecution(
+    fieldFns.map(([name, , { dependsOn = [] }]) => ({ name, dependsOn })),
+    logger
+  );
+  // Sequential runs put each field in its own batch, following the topological `order`.
+  const fieldBatches = parallelFields ? waves : order.map((index) => [index]);
+  logger.info('Converter initialized with configuration', {
+    fieldCount: fieldFns.length,
+    objectCount: objectFns.length,
+    preHookCount: preHooks.length,
+    postHookCount: postHooks.length,
+    requiredFields,
+  });
+
+  function* convert(
+    fromObj: FromObj,
+    additionalCtx: Partial<Ctx>,
+    { additional, add, issues, target, trace }: ConversionScope
+  ): Pipeline<ToObj | Many<ToObj>> {
+    const { signal } = { ...context, ...additionalCtx } as AbortableContext;
+    const cancelled = () => cancellationError(fromObj, signal);
+    const throwIfAborted = (): void => {
+      if (signal?.aborted) throw cancelled();
+    };
+    // The error a traced step ended with
+    const failed = (error: ConverterError): ConverterError => (signal?.aborted ? cancelled() : error);
+    // Once the signal aborts, the pending step rejects right away instead of waiting
+    const step = (value: unknown, label: string): PipelineStep => ({
+      await: signal && isThenable(value) ? raceAbort(value, signal, cancelled) : value,
+      label,
+    });
+
+    const collected: ConverterError[] = [];
+    const finish = <T extends ToObj | Many<ToObj>>(result: T): T => {
+      // In a graph call, earlier references already point at the registered target
+      if (target) {
+        const primary = getPrimary<ToObj>(result);
+        Object.assign(target, primary);
+        result = (result instanceof Many ? new Many(target as ToObj, ...getAdditional(result)) : target) as T;
+      }
+      return errorHandling === 'collect' ? attachCollectedErrors(result, collected) : result;
+    };
+
+    const handleError = (error: ConverterError, details: GenericObject): void => {
+      error.policy ??= errorHandling;
+      if (issues) {
+        (error.policy === 'throw' ? issues.errors : issues.warnings).push(error);
+      } else if (error.policy === 'throw') {
+        throw error;
+      }
+      if (error.policy === 'throw') {
+        logger.error(error.message, { ...details, policy: error.policy });
+      } else if (error.policy === 'warn') {
+        logger.warn(error.message, { ...details, policy: error.policy });
+      } else if (error.policy === 'collect') {
+        collected.push(error);
+        logger.debug(error.message, { ...details, policy: error.policy });
+      }
+    };
+
+    // Applies a registration's own `onError` policy, or `errorHandling` when it has none.
+    // Resolves to the fallback to merge in place of the failed result, if there is one.
+    function* recover<T>(
+      error: ConverterError,
+      details: GenericObject,
+      policy: ErrorPolicy<T> | undefined,
+      label: string
+    ): Pipeline<{ value: T } | undefined> {
+      // A step that failed because the conversion was cancelled is not the registration's error
+      throwIfAborted();
+      if (isAsyncResult(error)) throw error;
+      if (policy === undefined) {
+        handleError(error, details);
+        return undefined;
+      }
+      if (policy === 'throw') {
+        error.policy = 'throw';
+        logger.error(error.message, { ...details, policy: 'throw' });
+        if (!issues) throw error;
+        issues.errors.push(error);
+        return undefined;
+      }
+      error.policy = policy === 'skip' ? 'skip' : 'fallback';
+      let value: T | undefined;
+      if (typeof policy === 'function') {
+        try {
+          value = yield step(policy(error), `fallback for ${label}`);
+        } catch (err) {
+          const fallbackError = new ConverterError(
+            `Error in fallback for ${label}: ${(err as Error).message}`,
+            error.type,
+            { source: error.source, path: error.path, cause: err }
+          );
+          handleError(fallbackError, { ...details, error: err });
+          return undefined;
+        }
+      } else if (policy !== 'skip') {
+        value = policy.fallback;
+      }
+      issues?.warnings.push(error);
+      if (errorHandling === 'collect') collected.push(error);
+      logger.warn(error.message, { ...details, policy: error.policy });
+      return policy === 'skip' ? undefined : { value: value as T };
+    }
+
+    throwIfAborted();
+    if (inputSchema) {
+      const tracked = startStep?.('validation', 'input schema', trace);
+      let validation: StandardSchemaV1.Result<FromObj>;
+      try {
+        validation = yield step(inputSchema['~standard'].validate(fromObj), 'input schema');
+      } catch (err) {
+        tracked?.end(err);
+        throw err;
+      }
+      if (validation.issues) {
+        const error = new ConverterError(
+          `Invalid source object: ${formatIssues(validation.issues)}`,
+          ConverterErrorType.INVALID_SOURCE,
+          { source: fromObj, issues: validation.issues }
+        );
+        tracked?.end(error);
+        handleError(error, { source: fromObj, issues: validation.issues });
+        return finish({ ...defaults } as ToObj);
+      }
+      tracked?.end();
+      fromObj = validation.value;
+    }
+
+    if (typeof fromObj !== 'object' || fromObj === null) {
+      const error = new ConverterError(
+        'Source object must be a non-null object',
+        ConverterErrorType.INVALID_SOURCE,
+        { source: fromObj }
+      );
+      handleError(error, { source: fromObj });
+      return finish({ ...defaults } as ToObj);
+    }
+
+    const workingCtx = { ...context, ...additionalCtx } as Ctx;
+    let newObj = { ...defaults } as Partial<ToObj>;
+
+    try {
+      for (const [hook, name, hookOptions] of preHooks) {
+        throwIfAborted();
+        logger.debug(`Executing pre-hook: ${name}`);
+        const label = `pre-hook '${name}'`;
+        const tracked = startStep?.('pre-hook', name, trace);
+        try {
+          yield step(runAttempts(() => hook(workingCtx, fromObj, newObj, add), hookOptions, label, logger, { source: fromObj }, signal), label);
+          tracked?.end();
+        } catch (err) {
+          const error = isTimeoutError(err) ? err : new ConverterError(
+            `Error in pre-hook '${name}': ${(err as Error).message}`,
+            ConverterErrorType.PRE_HOOK,
+            { source: fromObj, cause: err }
+          );
+          tracked?.end(failed(error));
+          yield* recover(error, { hook: name, error: err }, hookOptions.onError, label);
+        }
+      }
+
+      for (const batch of fieldBatches) {
+        throwIfAborted();
+        const snapshot = newObj;
+        type FieldOutcome = { name: keyof ToObj; result: unknown } | { name: keyof ToObj; err: unknown };
+        const outcomes: FieldOutcome[] = yield {
+          all: batch.map(function* (index): Pipeline<FieldOutcome> {
+            const [name, fn, fieldOptions] = fieldFns[index];
+            throwIfAborted();
+            logger.debug(`Converting field: ${String(name)}`);
+            const label = `field '${String(name)}'`;
+            const tracked = startStep?.('field', String(name), trace);
+            try {
+              const result = runAttempts(() => fn(fromObj, workingCtx, { ...snapshot }), fieldOptions, label, logger, {
+                source: fromObj,
+                path: [String(name)],
+              }, signal);
+              const value: unknown = yield step(result, label);
+              tracked?.end();
+              return { name, result: value };
+            } catch (err) {
+              tracked?.end(failed(toFieldError([String(name)], err, fromObj)));
+              return { name, err };
+            }
+          }),
+        };
+        type FieldFailure = { error: ConverterError; name: keyof ToObj; err: unknown; onError?: ErrorPolicy };
+        throwIfAborted();
+        const failures: FieldFailure[] = [];
+        for (const [i, outcome] of outcomes.entries()) {
+          const { name } = outcome;
+          if (!('err' in outcome)) {
+            newObj = mergeStrategy<ToObj>(newObj, { [name]: outcome.result } as Partial<ToObj>);
+            continue;
+          }
+          const { onError } = fieldFns[batch[i]][2];
+          failures.push({ error: toFieldError([String(name)], outcome.err, fromObj), name, err: outcome.err, onError });
+        }
+        // Fields of a parallel wave have all run by now, so report every failure that throws together.
+        const throwing = failures.filter(({ onError }) => (onError ?? errorHandling) === 'throw');
+        if (throwing.length > 1 && !issues) {
+          for (const { error, name, err } of throwing) {
+            error.policy = 'throw';
+            logger.error(error.message, { field: name, error: err, policy: 'throw' });
+          }
+          throw new AggregateConverterError(throwing.map(({ error }) => error));
+        }
+        for (const { error, name, err, onError } of failures) {
+          const recovered = yield* recover(error, { field: name, error: err }, onError, `field '${String(name)}'`);
+          if (recovered) newObj = mergeStrategy<ToObj>(newObj, { [name]: recovered.value } as Partial<ToObj>);
+        }
+      }
+
+      for (const [fn, executeFns, objectOptions] of objectFns) {
+        throwIfAborted();
+        logger.debug('Executing object function');
+        const tracked = startStep?.('object', 'object function', trace);
+        try {
+          const result: Partial<ToObj> | void = yield step(
+            runAttempts(() => fn(fromObj, workingCtx, { ...newObj }), objectOptions, 'object function', logger, {
+              source: fromObj,
+            }, signal),
+            'object function'
+          );
+          if (typeof result === 'object' && result !== null) {
+            if (executeFns) {
+              // Use Record<string, any> to allow indexing with string keys
+              const clone: Record<string, any> = { ...result };
+              for (const [key, value] of Object.entries(result)) {
+                if (typeof value === 'function')
+                  clone[key] = yield step(
+                    (value as any)(fromObj, workingCtx, { ...newObj }),
+                    `object function value '${key}'`
+                  );
+              }
+              newObj = mergeStrategy<ToObj>(newObj, clone as Partial<ToObj>);
+            } else {
+              newObj = mergeStrategy<ToObj>(newObj, result as Partial<ToObj>);
+            }
+          }
+          tracked?.end();
+        } catch (err) {
+          const error = isTimeoutError(err) ? err : new ConverterError(
+            `Error in object function: ${(err as Error).message}`,
+            ConverterErrorType.OBJECT_CONVERSION,
+            { source: fromObj, cause: err }
+          );
+          tracked?.end(failed(error));
+          const recovered = yield* recover(error, { error: err }, objectOptions.onError, 'object function');
+          if (typeof recovered?.value === 'object' && recovered.value !== null) {
+            newObj = mergeStrategy<ToObj>(newObj, recovered.value);
+          }
+        }
+      }
+
+      for (const [hook, name, hookOptions] of postHooks) {
+        throwIfAborted();
+        logger.debug(`Executing post-hook: ${name}`);
+        const label = `post-hook '${name}'`;
+        const tracked = startStep?.('post-hook', name, trace);
+        try {
+          yield step(runAttempts(() => hook(workingCtx, fromObj, newObj, add), hookOptions, label, logger, { source: fromObj }, signal), label);
+          tracked?.end();
+        } catch (err) {
+          const error = isTimeoutError(err) ? err : new ConverterError(
+            `Error in post-hook '${name}': ${(err as Error).message}`,
+            ConverterErrorType.POST_HOOK,
+            { source: fromObj, cause: err }
+          );
+          tracked?.end(failed(error));
+          yield* recover(error, { hook: name, error: err }, hookOptions.onError, label);
+        }
+      }
+
+      throwIfAborted();
+      if (requiredFields.length > 0) {
+        const tracked = startStep?.('validation', 'required fields', trace);
+        const missingFields = validator.validateRequired(newObj, requiredFields as (keyof ToObj)[]);
+        if (missingFields.length > 0) {
+          const error = new ConverterError(
+            `Missing required fields: ${missingFields.join(', ')}`,
+            ConverterErrorType.VALIDATION,
+            { source: fromObj }
+          );
+          tracked?.end(error);
+          handleError(error, { missingFields });
+        } else {
+          tracked?.end();
+        }
+      }
+
+      if (outputSchema) {
+        const tracked = startStep?.('validation', 'output schema', trace);
+        let validation: StandardSchemaV1.Result<ToObj>;
+        try {
+          validation = yield step(outputSchema['~standard'].validate(newObj), 'output schema');
+        } catch (err) {
+          tracked?.end(err);
+          throw err;
+        }
+        if (validation.issues) {
+          const error = new ConverterError(
+            `Invalid converted object: ${formatIssues(validation.issues)}`,
+            ConverterErrorType.VALIDATION,
+            { source: fromObj, issues: validation.issues }
+          );
+          tracked?.end(error);
+          handleError(error, { issues: validation.issues });
+        } else {
+          tracked?.end();
+          newObj = validation.value;
+        }
+      }
+
+      if (additional.length > 0) {
+        logger.info('Conversion complete with additional objects', { count: additional.length + 1 });
+        return finish(new Many<ToObj>(newObj as ToObj, ...(additional as ToObj[])));
+      }
+      logger.info('Conversion complete');
+      return finish(newObj as ToObj);
+    } catch (err) {
+      if (err instanceof ConverterError && err.type === ConverterErrorType.CANCELLED) {
+        logger.info('Conversion cancelled');
+      } else {
+        logger.error('Conversion failed', { error: err });
+      }
+      throw err;
+    }
+  }
+
+  return {
+    logger,
+    run: (drive, fromObj, additionalCtx, issues) => {
+      const execute = () => {
+        const scope = createScope(issues);
+        const targets = scope.graph && typeof fromObj === 'object' && fromObj !== null
+          ? scope.graph.get(fromObj) ?? new Map<object, GenericObject>()
+          : undefined;
+        const existing = targets?.get(owner);
+        if (existing) {
+          logger.debug('Returning target already created in this graph');
+          return drive((function* (): Pipeline<ToObj | Many<ToObj>> {
+            return existing as ToObj;
+          })());
+        }
+        if (targets) {
+          // Registered before any field runs, so cycles back to this source resolve to it
+          scope.target = {};
+          targets.set(owner, scope.target);
+          scope.graph?.set(fromObj, targets);
+        }
+        const tracked = startStep?.('conversion', converterName, scope.parent?.trace);
+        scope.trace = tracked?.step;
+        const pipeline = convert(fromObj, additionalCtx, scope);
+        return drive(inScope(scope, tracked ? traceConversion(pipeline, tracked.end) : pipeline));
+      };
+      // safeConvert always runs the pipeline, so it can report what went wrong
+      if (!resultCache || issues) return execute();
+      let key: ReturnType<typeof resultCache.keyOf>;
+      let cached: ToObj | Many<ToObj> | undefined;
+      try {
+        key = resultCache.keyOf(fromObj, additionalCtx);
+        cached = key === undefined ? undefined : resultCache.get(key);
+      } catch (err) {
+        // Fails through the driver, so an async converter rejects instead of throwing
+        logger.error('Conversion failed', { error: err });
+        return drive((function* (): Pipeline<ToObj | Many<ToObj>> {
+          throw err;
+        })());
+      }
+      // A cancelled call runs the pipeline, which rejects before converting anything
+      const { signal } = { ...context, ...additionalCtx } as AbortableContext;
+      if (key === undefined || signal?.aborted) return execute();
+
+      if (cached !== undefined) {
+        logger.debug('Returning cached conversion result');
+        return drive((function* (): Pipeline<ToObj | Many<ToObj>> {
+          return cached;
+        })());
+      }
+      const result: unknown = execute();
+      return (
+        isThenable(result)
+          ? result.then((value) => resultCache.set(key, value as ToObj | Many<ToObj>))
+          : resultCache.set(key, result as ToObj | Many<ToObj>)
+      ) as ReturnType<typeof drive>;
+    },
+    invalidate: (fromObj, additionalCtx) => {
+      const key = resultCache?.keyOf(fromObj, additionalCtx);
+      if (key !== undefined) resultCache?.delete(key);
+    },
+    clearCache: () => resultCache?.clear(),
+  };
+}
+
+/**
+ * Converter options with an `inputSchema` whose input type the converter is called with
+ *
+ * @typedef SchemaInputOptions
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template FromObj - Source object type, the output type of the schema
+ * @template Input - The input type of the schema
+ */
+export type SchemaInputOptions<
+  ToObj extends GenericObject,
+  Ctx extends GenericObject,
+  FromObj extends GenericObject,
+  Input extends GenericObject
+> = Omit<ConverterOptions<ToObj, Ctx, FromObj>, 'inputSchema'> & { inputSchema: StandardSchemaV1<Input, FromObj> };
+
+/**
+ * Definitions and options of the converters created by {@link createConverter}, read by {@link extend}
+ */
+const converterDefinitions = new WeakMap<
+  object,
+  { fn: ConverterDefinition<any, any, any>; options: ConverterOptions<any, any, any> }
+>();
+
+/**
+ * Creates a reusable converter function
+ *
+ * Main entry point for defining and using converters with custom logic and options. When the type
+ * arguments are inferred from an `inputSchema`, the converter accepts the schema's input type
+ * while fields receive its output type.
+ *
+ * @function createConverter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template Input - Type the converter is called with, the input type of `inputSchema`
+ * @param {ConverterDefinition<FromObj, ToObj, Ctx>} [fn] - Converter definition function
+ * @param {ConverterOptions<ToObj, Ctx, FromObj>} [options] - Configuration options
+ * @returns {Converter<Input, ToObj, Ctx>} The converter function
+ * @example
+ * // Define a simple converter
+ * const convert = createConverter<{ name: string }, { name: string }>((field) => {
+ *   field('name', (from) => from.name.toUpperCase(), { required: true });
+ * }, { requiredFields: ['name'] });
+ *
+ * // Use the converter
+ * async function example() {
+ *   const result = await convert({ name: 'john' });
+ *   console.log(result); // { name: 'JOHN' }
+ * }
+ */
+export function createConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  Input extends GenericObject = FromObj
+>(
+  fn: ConverterDefinition<FromObj, ToObj, Ctx>,
+  options: SchemaInputOptions<ToObj, Ctx, FromObj, Input>
+): Converter<Input, ToObj, Ctx>;
+export function createConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(fn?: ConverterDefinition<FromObj, ToObj, Ctx>, options?: ConverterOptions<ToObj, Ctx, FromObj>): Converter<FromObj, ToObj, Ctx>;
+export function createConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  fn: ConverterDefinition<FromObj, ToObj, Ctx> = () => {},
+  options: ConverterOptions<ToObj, Ctx, FromObj> = {}
+): Converter<FromObj, ToObj, Ctx> {
+  const engine = defineConverter(fn, options);
+  const { logger } = engine;
+
+  const converter = (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): Promise<ToObj | Many<ToObj>> =>
+    engine.run(driveAsync, fromObj, additionalCtx);
+
+  const safeConvert = async (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): Promise<SafeConvertResult<ToObj>> => {
+    const issues = { errors: [] as ConverterError[], warnings: [] as ConverterError[] };
+    const value = await engine.run(driveAsync, fromObj, additionalCtx, issues);
+    return { ok: issues.errors.length === 0, value, ...issues };
+  };
+
+  const convertAll = createConvertAll(converter, logger);
+
+  const { invalidate, clearCache } = engine;
+  const result = Object.assign(converter, { convertAll, safeConvert, invalidate, clearCache });
+  converterDefinitions.set(result, { fn, options });
+  return result;
+}
+
+/**
+ * Creates a synchronous converter function
+ *
+ * Takes the same definition and options as {@link createConverter} and runs the same pipeline,
+ * but returns its result directly. Every registered function must be synchronous.
+ *
+ * @function createSyncConverter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template Input - Type the converter is called with, the input type of `inputSchema`
+ * @param {ConverterDefinition<FromObj, ToObj, Ctx>} [fn] - Converter definition function
+ * @param {ConverterOptions<ToObj, Ctx, FromObj>} [options] - Configuration options
+ * @returns {SyncConverter<Input, ToObj, Ctx>} The converter function
+ * @throws {ConverterError} When converting, with type `ASYNC_RESULT` if a registered function returns a promise,
+ * whatever the error policies and `errorHandling`; `safeConvert` throws it too
+ * @example
+ * const toOption = createSyncConverter<User, Option>((field) => {
+ *   field('value', (from) => from.id);
+ *   field('label', (from) => from.name);
+ * });
+ *
+ * const options = users.map((user) => getPrimary(toOption(user)));
+ */
+export function createSyncConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  Input extends GenericObject = FromObj
+>(
+  fn: ConverterDefinition<FromObj, ToObj, Ctx>,
+  options: SchemaInputOptions<ToObj, Ctx, FromObj, Input>
+): SyncConverter<Input, ToObj, Ctx>;
+export function createSyncConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(fn?: ConverterDefinition<FromObj, ToObj, Ctx>, options?: ConverterOptions<ToObj, Ctx, FromObj>): SyncConverter<FromObj, ToObj, Ctx>;
+export function createSyncConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  fn: ConverterDefinition<FromObj, ToObj, Ctx> = () => {},
+  options: ConverterOptions<ToObj, Ctx, FromObj> = {}
+): SyncConverter<FromObj, ToObj, Ctx> {
+  const engine = defineConverter(fn, options);
+
+  const converter = (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): ToObj | Many<ToObj> =>
+    engine.run(driveSync, fromObj, additionalCtx);
+
+  const safeConvert = (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): SafeConvertResult<ToObj> => {
+    const issues = { errors: [] as ConverterError[], warnings: [] as ConverterError[] };
+    const value = engine.run(driveSync, fromObj, additionalCtx, issues);
+    return { ok: issues.errors.length === 0, value, ...issues };
+  };
+
+  const { invalidate, clearCache } = engine;
+  return Object.assign(converter, { safeConvert, invalidate, clearCache });
+}
+
+/**
+ * A converter that can be used as a stage of {@link pipe}
+ *
+ * @typedef PipeStage
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export type PipeStage<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> = Converter<FromObj, ToObj, Ctx> | SyncConverter<FromObj, ToObj, Ctx>;
+
+/**
+ * Options for {@link pipe}
+ *
+ * @interface PipeOptions
+ */
+export interface PipeOptions {
+  /**
+   * @type {'drop' | 'accumulate'} [additional='drop'] What to do with additional objects returned by
+   * a stage. Only the primary object is passed to the next stage; `accumulate` appends the extras
+   * of every stage to the final result.
+   */
+  additional?: 'drop' | 'accumulate';
+
+  /** @type {Logger} [logger] Logger for the composed converter */
+  logger?: Logger;
+}
+
+/**
+ * Composes converters into a single converter
+ *
+ * Each stage receives the primary object of the previous stage and the same `additionalCtx`.
+ * A stage that throws is reported as a `ConverterError` of type `PIPE_STAGE` naming the stage,
+ * with the original error as `cause`. Cancellation through `signal` is rethrown as is, and no
+ * stage starts once the signal has aborted. The composed converter has `convertAll` and
+ * `safeConvert`; `safeConvert` runs every stage's own `safeConvert` and collects their errors.
+ *
+ * @function pipe
+ * @param {...PipeStage} stages - The converters to run in order
+ * @param {PipeOptions} [options] - Pipe options
+ * @returns {Converter} A converter from the first stage's source to the last stage's target
+ * @example
+ * const toViewUser = pipe(toDomainUser, toViewModel, { additional: 'accumulate' });
+ * const view = getPrimary(await toViewUser(apiUser, { locale: 'en' }));
+ */
+export function pipe<A extends GenericObject, B extends GenericObject, C extends GenericObject, Ctx extends GenericObject = GenericObject>(
+  ab: PipeStage<A, B, Ctx>,
+  bc: PipeStage<B, C, Ctx>,
+  options?: PipeOptions
+): Converter<A, C, Ctx>;
+export function pipe<
+  A extends GenericObject,
+  B extends GenericObject,
+  C extends GenericObject,
+  D extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(ab: PipeStage<A, B, Ctx>, bc: PipeStage<B, C, Ctx>, cd: PipeStage<C, D, Ctx>, options?: PipeOptions): Converter<A, D, Ctx>;
+export function pipe<
+  A extends GenericObject,
+  B extends GenericObject,
+  C extends GenericObject,
+  D extends GenericObject,
+  E extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  ab: PipeStage<A, B, Ctx>,
+  bc: PipeStage<B, C, Ctx>,
+  cd: PipeStage<C, D, Ctx>,
+  de: PipeStage<D, E, Ctx>,
+  options?: PipeOptions
+): Converter<A, E, Ctx>;
+export function pipe<
+  A extends GenericObject,
+  B extends GenericObject,
+  C extends GenericObject,
+  D extends GenericObject,
+  E extends GenericObject,
+  F extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  ab: PipeStage<A, B, Ctx>,
+  bc: PipeStage<B, C, Ctx>,
+  cd: PipeStage<C, D, Ctx>,
+  de: PipeStage<D, E, Ctx>,
+  ef: PipeStage<E, F, Ctx>,
+  options?: PipeOptions
+): Converter<A, F, Ctx>;
+export function pipe(...args: (PipeStage<any, any, any> | PipeOptions | undefined)[]): Converter<any, any, any> {
+  const stages = args.filter((arg): arg is PipeStage<GenericObject, GenericObject> => typeof arg === 'function');
+  const { additional: policy = 'drop', logger = noopLogger } =
+    (args.find((arg) => typeof arg !== 'function') as PipeOptions | undefined) ?? {};
+
+  const toResult = (value: GenericObject, extras: GenericObject[]): GenericObject | Many<GenericObject> =>
+    policy === 'accumulate' && extras.length > 0 ? new Many(value, ...extras) : value;
+
+  const throwIfAborted = (value: GenericObject, { signal }: AbortableContext): void => {
+    if (signal?.aborted) throw cancellationError(value, signal);
+  };
+
+  const converter = async (fromObj: GenericObject, additionalCtx: GenericObject = {}) => {
+    let value = fromObj;
+    const extras: GenericObject[] = [];
+    for (const [index, stage] of stages.entries()) {
+      throwIfAborted(value, additionalCtx);
+      logger.debug(`Running pipe stage ${index + 1} of ${stages.length}`);
+      try {
+        const result = await stage(value, additionalCtx);
+        value = getPrimary(result);
+        extras.push(...getAdditional(result));
+      } catch (err) {
+        if (err instanceof ConverterError && err.type === ConverterErrorType.CANCELLED) throw err;
+        const error = new ConverterError(
+          `Error in pipe stage ${index + 1} of ${stages.length}: ${(err as Error).message}`,
+          ConverterErrorType.PIPE_STAGE,
+          { source: value, cause: err }
+        );
+        logger.error(error.message, { stage: index + 1, error: err });
+        throw error;
+      }
+    }
+    return toResult(value, extras);
+  };
+
+  const safeConvert = async (fromObj: GenericObject, additionalCtx: GenericObject = {}) => {
+    let value = fromObj;
+    const extras: GenericObject[] = [];
+    const errors: ConverterError[] = [];
+    const warnings: ConverterError[] = [];
+    for (const stage of stages) {
+      throwIfAborted(value, additionalCtx);
+      const result = await stage.safeConvert(value, additionalCtx);
+      value = getPrimary(result.value);
+      extras.push(...getAdditional(result.value));
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+    }
+    return { ok: errors.length === 0, value: toResult(value, extras), errors, warnings };
+  };
+
+  // Only the stages cache their results; the first stage is the one that sees the source object
+  const invalidate = (fromObj: GenericObject, additionalCtx?: GenericObject) => stages[0].invalidate(fromObj, additionalCtx);
+  const clearCache = () => stages.forEach((stage) => stage.clearCache());
+
+  return Object.assign(converter, {
+    convertAll: createConvertAll(converter, logger),
+    safeConvert,
+    invalidate,
+    clearCache,
+  });
+}
+
+/**
+ * Options for {@link extend}
+ *
+ * Options are merged over the base converter's options. `defaults` and `context` are merged key
+ * by key, `requiredFields` are combined, and the base's `outputSchema` and `cache` are not inherited.
+ *
+ * @interface ExtendOptions
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template FromObj - Source object type
+ */
+export interface ExtendOptions<
+  ToObj extends GenericObject,
+  Ctx extends GenericObject,
+  FromObj extends GenericObject = GenericObject
+> extends ConverterOptions<ToObj, Ctx, FromObj> {
+  /** @type {string[]} [omitFields] Inherited fields to remove, along with their defaults */
+  omitFields?: string[];
+
+  /** @type {string[]} [omitHooks] Inherited pre- and post-hooks to remove, by name */
+  omitHooks?: string[];
+}
+
+/**
+ * Creates a converter that inherits the definition and options of another converter
+ *
+ * The base definition runs first, then `fn`. A field registered by `fn` under an inherited name
+ * replaces the inherited field in its original position; a pre- or post-hook registered under an
+ * inherited hook name replaces that hook. Object functions and unnamed hooks are always added.
+ * The derived converter can be extended in turn.
+ *
+ * @function extend
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type of the derived converter
+ * @template Ctx - Context object type of the derived converter
+ * @param {Converter} base - A converter created by {@link createConverter} or `extend`
+ * @param {ConverterDefinition<FromObj, ToObj, Ctx>} [fn] - Additional and overriding registrations
+ * @param {ExtendOptions<ToObj, Ctx, FromObj>} [options] - Options merged over the base options
+ * @returns {Converter<FromObj, ToObj, Ctx>} The derived converter
+ * @throws {ConverterError} If `base` was not created by `createConverter` or `extend`
+ * @example
+ * const toAdminUser = extend<ApiUser, AdminUser>(toUser, (field) => {
+ *   field('permissions', (from) => from.permissions);
+ *   field('createdAt', (from) => new Date(from.created_at));
+ * }, { omitFields: ['nickname'], omitHooks: ['trackUsage'] });
+ */
+export function extend<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  // The `Partial<ToObj>` member lets `ToObj` be inferred from the base when it is not given.
+  base: Converter<FromObj, Partial<ToObj>, Ctx> | Converter<FromObj, GenericObject, Ctx>,
+  fn: ConverterDefinition<FromObj, ToObj, Ctx> = () => {},
+  { omitFields = [], omitHooks = [], ...options }: ExtendOptions<ToObj, Ctx, FromObj> = {}
+): Converter<FromObj, ToObj, Ctx> {
+  const inherited = converterDefinitions.get(base);
+  if (!inherited) {
+    throw new ConverterError(
+      'Only converters created by createConverter or extend can be extended',
+      ConverterErrorType.INVALID_SOURCE
+    );
+  }
+  const { fn: baseFn, options: baseOptions } = inherited;
+
+  const definition: ConverterDefinition<FromObj, ToObj, Ctx> = (field, obj, pre, post, ...rest) => {
+    // Maps keep the position of the first registration when a later one replaces it.
+    const fields = new Map<PropertyKey, () => void>();
+    const objectFns: (() => void)[] = [];
+    const preHooks = new Map<PropertyKey, () => void>();
+    const postHooks = new Map<PropertyKey, () => void>();
+    const hookKey = (hook: Function, name?: string): PropertyKey => name ?? (hook.name || Symbol('anonymous'));
+
+    const record = (): Parameters<ConverterDefinition<FromObj, ToObj, Ctx>> => [
+      (name, fieldFn, fieldOptions) => {
+        fields.set(name, () => field(name, fieldFn, fieldOptions));
+      },
+      (objectFn, executeFns, objectOptions) => {
+        objectFns.push(() => obj(objectFn, executeFns, objectOptions));
+      },
+      (hook, name, hookOptions) => {
+        preHooks.set(hookKey(hook, name), () => pre(hook, name, hookOptions));
+      },
+      (hook, name, hookOptions) => {
+        postHooks.set(hookKey(hook, name), () => post(hook, name, hookOptions));
+      },
+      ...rest,
+    ];
+
+    baseFn(...record());
+    for (const name of omitFields) fields.delete(name);
+    for (const name of omitHooks) {
+      preHooks.delete(name);
+      postHooks.delete(name);
+    }
+    fn(...record());
+
+    for (const register of [...fields.values(), ...objectFns, ...preHooks.values(), ...postHooks.values()]) {
+      register();
+    }
+  };
+
+  const { outputSchema: _outputSchema, cache: _cache, ...inheritedOptions } = baseOptions;
+  const defaults: GenericObject = { ...inheritedOptions.defaults, ...options.defaults };
+  return createConverter<FromObj, ToObj, Ctx>(definition, {
+    ...inheritedOptions,
+    ...options,
+    defaults: Object.fromEntries(
+      Object.entries(defaults).filter(([key]) => !omitFields.includes(key))
+    ) as Partial<ToObj>,
+    context: { ...inheritedOptions.context, ...options.context } as Ctx,
+    requiredFields: [
+      ...new Set([
+        ...((inheritedOptions.requiredFields ?? []) as (keyof ToObj)[]).filter((name) => !omitFields.includes(String(name))),
+        ...(options.requiredFields ?? []),
+      ]),
+    ],
+  });
+}
+
+/**
+ * Options for {@link nested}
+ *
+ * @interface NestedOptions
+ */
+export interface NestedOptions {
+  /**
+   * @type {'drop' | 'lift'} [additional='drop'] What to do with additional objects returned by the
+   * child converter; `lift` adds them to the parent conversion's result
+   */
+  additional?: 'drop' | 'lift';
+}
+
+/**
+ * Creates a field function that converts part of the source object with another converter
+ *
+ * The child converter receives the selected value and the parent's context. When the selection is
+ * `null` or `undefined` the field is `undefined` and the child is not run. Errors from the child are
+ * reported by the parent under the full path, so a failing `postcode` field of a child used for
+ * `address` surfaces as `address.postcode` with the child's original error as `cause`.
+ *
+ * @function nested
+ * @template ChildFrom - Source object type of the child converter
+ * @template ChildTo - Target object type of the child converter
+ * @template Ctx - Context object type
+ * @template FromObj - Source object type of the parent converter
+ * @param {PipeStage<ChildFrom, ChildTo, Ctx>} converter - The child converter
+ * @param {function} selector - Selects the child's source from the parent's source and context
+ * @param {NestedOptions} [options] - Nested options
+ * @returns {FieldFunction} A field function for `field`
+ * @example
+ * const toUser = createConverter<ApiUser, User>((field) => {
+ *   field('address', nested(toAddress, (from) => from.address, { additional: 'lift' }));
+ * });
+ */
+export function nested<
+  ChildFrom extends GenericObject,
+  ChildTo extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  FromObj extends GenericObject = GenericObject,
+  Selected extends ChildFrom | null | undefined = ChildFrom
+>(
+  converter: PipeStage<ChildFrom, ChildTo, Ctx>,
+  selector: (fromObj: FromObj, ctx: Ctx) => Selected,
+  { additional = 'drop' }: NestedOptions = {}
+): FieldFunction<FromObj, Ctx, GenericObject, ChildTo | (Selected extends ChildFrom ? never : undefined)> {
+  return (fromObj, ctx) => {
+    const value = selector(fromObj, ctx);
+    if (value === undefined || value === null) return undefined as never;
+    const parent = runningConversion.current();
+    return thenOrNow(runChild(() => converter(value, ctx)), (result) => {
+      if (additional === 'lift') parent?.additional.push(...getAdditional(result));
+      return getPrimary(result);
+    });
+  };
+}
+
+/**
+ * Options for {@link each}
+ *
+ * @interface EachOptions
+ * @template ChildFrom - Source element type
+ * @template ChildTo - Converted element type
+ * @template P - Placeholder type
+ */
+export interface EachOptions<ChildFrom extends GenericObject, ChildTo extends GenericObject, P = never> {
+  /** @type {number} [concurrency=1] Maximum number of elements converted at once */
+  concurrency?: number;
+
+  /**
+   * @type {'fail' | 'drop' | 'placeholder'} [onError='fail'] What to do with an element that fails to
+   * convert: fail the whole field, leave the element out, or keep `placeholder` in its place.
+   * Placeholders have no key, so `'placeholder'` cannot be combined with `key`
+   */
+  onError?: 'fail' | 'drop' | 'placeholder';
+
+  /** @type {P | function} [placeholder] Value, or factory called with the error, element and index */
+  placeholder?: P | ((error: unknown, item: ChildFrom, index: number) => P);
+
+  /**
+   * @type {keyof ChildTo} [key] Converted field to key the result by; the field then produces a
+   * record instead of an array
+   */
+  key?: keyof ChildTo & string;
+
+  /**
+   * @type {'drop' | 'lift'} [additional='drop'] What to do with additional objects returned for each
+   * element; `lift` adds them to the parent conversion's result
+   */
+  additional?: 'drop' | 'lift';
+}
+
+/**
+ * Creates a field function that converts every element of a selected array with another converter
+ *
+ * Elements run through the converter with the parent's context, in order unless `concurrency` is
+ * raised; the result keeps the input order. Errors are reported by the parent under the element's
+ * path, such as `items[3].price`. With `key` the field produces a record keyed by that converted
+ * field instead of an array. When the selection is `null` or `undefined` the field is `undefined`.
+ *
+ * @function each
+ * @template ChildFrom - Source element type
+ * @template ChildTo - Converted element type
+ * @template Ctx - Context object type
+ * @template FromObj - Source object type of the parent converter
+ * @param {PipeStage<ChildFrom, ChildTo, Ctx>} converter - The element converter
+ * @param {function} selector - Selects the elements from the parent's source and context
+ * @param {EachOptions} [options] - Concurrency, error policy, keying and additional objects
+ * @returns {FieldFunction} A field function for `field`
+ * @throws {ConverterError} If `onError` is `'placeholder'` and `key` is given, or if the selector
+ * returns something other than an iterable
+ * @example
+ * const toOrder = createConverter<ApiOrder, Order>((field) => {
+ *   field('items', each(toItem, (from) => from.items, { onError: 'drop', concurrency: 4 }));
+ *   field('itemsById', each(toItem, (from) => from.items, { key: 'id' }));
+ * });
+ */
+export function each<
+  ChildFrom extends GenericObject,
+  ChildTo extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  FromObj extends GenericObject = GenericObject,
+  Selected extends Iterable<ChildFrom> | null | undefined = ChildFrom[]
+>(
+  converter: PipeStage<ChildFrom, ChildTo, Ctx>,
+  selector: (fromObj: FromObj, ctx: Ctx) => Selected,
+  options: Omit<EachOptions<ChildFrom, ChildTo>, 'onError' | 'placeholder'> & {
+    key: keyof ChildTo & string;
+    onError?: 'fail' | 'drop';
+  }
+): FieldFunction<FromObj, Ctx, GenericObject, Record<string, ChildTo> | (Selected extends Iterable<ChildFrom> ? never : undefined)>;
+export function each<
+  ChildFrom extends GenericObject,
+  ChildTo extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  FromObj extends GenericObject = GenericObject,
+  Selected extends Iterable<ChildFrom> | null | undefined = ChildFrom[],
+  P = never
+>(
+  converter: PipeStage<ChildFrom, ChildTo, Ctx>,
+  selector: (fromObj: FromObj, ctx: Ctx) => Selected,
+  options?: EachOptions<ChildFrom, ChildTo, P> & { key?: undefined }
+): FieldFunction<FromObj, Ctx, GenericObject, (ChildTo | P)[] | (Selected extends Iterable<ChildFrom> ? never : undefined)>;
+export function each(
+  converter: PipeStage<GenericObject, GenericObject>,
+  selector: (fromObj: GenericObject, ctx: GenericObject) => Iterable<GenericObject> | null | undefined,
+  { concurrency = 1, onError = 'fail', placeholder, key, additional = 'drop' }: EachOptions<GenericObject, GenericObject, unknown> = {}
+): FieldFunction<GenericObject, GenericObject, GenericObject, unknown> {
+  if (key !== undefined && onError === 'placeholder') {
+    throw new ConverterError(
+      "Invalid each() options: onError 'placeholder' cannot be combined with key",
+      ConverterErrorType.INVALID_FIELD
+    );
+  }
+  const dropped = Symbol('dropped');
+
+  return (fromObj, ctx) => {
+    const selected = selector(fromObj, ctx);
+    if (selected === undefined || selected === null) return undefined;
+    if (typeof (selected as Iterable<GenericObject>)[Symbol.iterator] !== 'function') {
+      throw new ConverterError('each() selector must return an iterable', ConverterErrorType.INVALID_SOURCE, {
+        source: fromObj,
+      });
+    }
+    const items = Array.from(selected);
+    const parent = runningConversion.current();
+
+    const convertItem = (item: GenericObject, index: number): unknown => {
+      const onFailure = (err: unknown): unknown => {
+        if (onError === 'fail' || isAsyncResult(err)) throw err;
+        if (onError === 'drop') return dropped;
+        return typeof placeholder === 'function' ? placeholder(err, item, index) : placeholder;
+      };
+      try {
+        // Items after the first may start once the field function has returned
+        const call = () => converter(item, ctx);
+        const result = thenOrNow(runChild(() => (parent ? runningConversion.run(parent, call) : call()), [index]), (converted) => {
+          if (additional === 'lift') parent?.additional.push(...getAdditional(converted));
+          return getPrimary(converted);
+        });
+        return isThenable(result) ? Promise.resolve(result).catch(onFailure) : result;
+      } catch (err) {
+        return onFailure(err);
+      }
+    };
+
+    const collect = (values: unknown[]) => {
+      const kept = values.filter((value) => value !== dropped);
+      return key === undefined
+        ? kept
+        : Object.fromEntries(kept.map((value) => [String((value as GenericObject)?.[key]), value]));
+    };
+
+    if (concurrency <= 1) return thenOrNow(mapInOrder(items, convertItem), collect);
+
+    return (async () => {
+      const values: unknown[] = new Array(items.length);
+      let failure: { err: unknown } | undefined;
+      await runWithConcurrency(
+        items,
+        concurrency,
+        async (item, index) => {
+          try {
+            values[index] = await convertItem(item, index);
+          } catch (err) {
+            failure ??= { err };
+          }
+        },
+        () => failure !== undefined
+      );
+      if (failure) throw failure.err;
+      return collect(values);
+    })();
+  };
+}
+
+type PathPrimitive = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function;
+type PathDepth = [never, 0, 1, 2, 3, 4];
+type KnownKeys<T> = keyof { [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K] } & string;
+type PathKeys<T> = [KnownKeys<T>] extends [never] ? string : KnownKeys<T>;
+type PathFrom<K extends string, V, D extends number> = 0 extends 1 & V
+  ? K | `${K}${'.' | '['}${string}`
+  : NonNullable<V> extends readonly (infer E)[]
+    ?
+        | K
+        | `${K}[${number}]`
+        | `${K}[*]`
+        | (NonNullable<E> extends PathPrimitive ? never : `${K}[${number}].${Path<E, D>}` | `${K}[*].${Path<E, D>}`)
+    : NonNullable<V> extends PathPrimitive
+      ? K
+      : K | `${K}.${Path<V, D>}`;
+
+/**
+ * Dot and bracket paths into `T`, such as `address.city`, `items[0].sku` or `items[*].sku`
+ *
+ * Nesting is followed up to a fixed depth. Objects without declared keys accept any path.
+ *
+ * @typedef Path
+ * @template T - Object type
+ */
+export type Path<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : 0 extends 1 & T
+    ? string
+    : { [K in PathKeys<NonNullable<T>>]: PathFrom<K, NonNullable<T>[K & keyof NonNullable<T>], PathDepth[D]> }[PathKeys<NonNullable<T>>];
+
+type TargetPathFrom<K extends string, V, D extends number> = 0 extends 1 & V
+  ? K | `${K}.${string}`
+  : NonNullable<V> extends PathPrimitive | readonly unknown[]
+    ? K
+    : K | `${K}.${TargetPath<V, D>}`;
+
+/**
+ * Dot paths into `T` that {@link map} can write to; array indexes and wildcards are not allowed
+ *
+ * @typedef TargetPath
+ * @template T - Object type
+ */
+export type TargetPath<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : 0 extends 1 & T
+    ? string
+    : { [K in PathKeys<NonNullable<T>>]: TargetPathFrom<K, NonNullable<T>[K & keyof NonNullable<T>], PathDepth[D]> }[PathKeys<NonNullable<T>>];
+
+type PathKeyValue<T, K extends string> =
+  | (K extends keyof NonNullable<T> ? NonNullable<T>[K] : undefined)
+  | (undefined extends T ? undefined : never);
+type PathElement<V> = NonNullable<V> extends readonly (infer E)[] ? E : undefined;
+type PathRest<V, R extends string> = R extends '' ? V : PathValue<V, R>;
+type PathStep<T, H extends string, R extends string> = H extends `${infer K}[*]`
+  ? PathRest<PathElement<PathKeyValue<T, K>>, R>[]
+  : H extends `${infer K}[${number}]`
+    ? PathRest<PathElement<PathKeyValue<T, K>> | undefined, R>
+    : PathRest<PathKeyValue<T, H>, R>;
+
+/**
+ * Type of the value found at `P` in `T`; wildcard segments produce arrays
+ *
+ * @typedef PathValue
+ * @template T - Object type
+ * @template P - Path into `T`
+ */
+export type PathValue<T, P extends string> = 0 extends 1 & T
+  ? any
+  : P extends `${infer H}.${infer R}`
+    ? PathStep<T, H, R>
+    : PathStep<T, P, ''>;
+
+/**
+ * A step in a {@link map} transform chain
+ *
+ * @typedef {function} PathTransform
+ * @template FromObj - Source object type
+ * @template Ctx - Context object type
+ * @template In - Input value type
+ * @param {In} value - The value read from the source path, or the previous transform's result
+ * @param {FromObj} fromObj - The source object
+ * @param {Ctx} ctx - The context object
+ * @returns {any} The transformed value
+ */
+export type PathTransform<FromObj extends GenericObject = GenericObject, Ctx extends GenericObject = GenericObject, In = any> = (
+  value: In,
+  fromObj: FromObj,
+  ctx: Ctx
+) => any;
+
+/**
+ * Options for a {@link map} entry
+ *
+ * @interface MapOptions
+ * @template FromObj - Source object type
+ * @template Ctx - Context object type
+ * @template In - Type of the value at the source path
+ */
+export interface MapOptions<FromObj extends GenericObject = GenericObject, Ctx extends GenericObject = GenericObject, In = any> {
+  /**
+   * @type {PathTransform | PathTransform[]} [transform] Transform, or chain of transforms applied in order.
+   * A transform that returns a promise makes the rest of the chain asynchronous.
+   */
+  transform?: PathTransform<FromObj, Ctx, In> | [PathTransform<FromObj, Ctx, In>, ...PathTransform<FromObj, Ctx>[]];
+
+  /** @type {In} [default] Value used when the source path is missing or undefined */
+  default?: NonNullable<In>;
+}
+
+const WILDCARD = Symbol('wildcard');
+type MapSegment = string | number | typeof WILDCARD;
+
+const parsePath = (path: string): MapSegment[] => {
+  const segments: MapSegment[] = [];
+  for (const part of path.split('.')) {
+    const match = /^([^[\]]+)((?:\[(?:\d+|\*)\])*)$/.exec(part);
+    if (!match) {
+      throw new ConverterError(`Invalid path '${path}'`, ConverterErrorType.INVALID_FIELD, { fieldName: path });
+    }
+    segments.push(match[1]);
+    if (match[2]) {
+      for (const index of match[2].slice(1, -1).split('][')) {
+        segments.push(index === '*' ? WILDCARD : Number(index));
+      }
+    }
+  }
+  return segments;
+};
+
+const readPath = (value: unknown, segments: MapSegment[]): unknown => {
+  if (segments.length === 0) return value;
+  if (typeof value !== 'object' || value === null) return undefined;
+  const [segment, ...rest] = segments;
+  if (segment === WILDCARD) {
+    return Array.isArray(value) ? value.map((item) => readPath(item, rest)) : undefined;
+  }
+  return readPath((value as GenericObject)[segment], rest);
+};
+
+/**
+ * Creates an object function that copies a value from a source path to a target path
+ *
+ * Source paths use dot and bracket notation, including array indexes (`items[0].sku`) and
+ * wildcards (`items[*].sku`), which collect the value from every element. Target paths are dot
+ * paths; the value is returned as a nested partial object, so it is combined with the rest of the
+ * target by the converter's `mergeStrategy`. Both paths are checked against `FromObj` and `ToObj`,
+ * which are inferred when the result is passed straight to `obj`.
+ *
+ * @function map
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @param {Path<FromObj>} source - Path to read from the source object
+ * @param {TargetPath<ToObj>} target - Path to write in the target object
+ * @param {MapOptions} [options] - Transform chain and default value
+ * @returns {ObjectFunction<FromObj, ToObj, Ctx>} An object function for `obj`
+ * @throws {ConverterError} If either path is malformed, or the target path has indexes or wildcards
+ * @example
+ * const toContact = createConverter<Customer, Contact>((field, obj) => {
+ *   obj(map('address.city', 'location.city', { transform: transforms.trim, default: 'Unknown' }));
+ *   obj(map('orders[*].sku', 'skus'));
+ * });
+ */
+export function map<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  S extends Path<FromObj> = Path<FromObj>,
+  T extends TargetPath<ToObj> = TargetPath<ToObj>
+>(
+  source: S,
+  target: T,
+  options: MapOptions<FromObj, Ctx, PathValue<FromObj, S>> = {}
+): ObjectFunction<FromObj, ToObj, Ctx> {
+  const sourceSegments = parsePath(source);
+  const targetSegments = parsePath(target);
+  if (targetSegments.some((segment) => typeof segment !== 'string')) {
+    throw new ConverterError(
+      `Invalid target path '${target}': Array indexes and wildcards can only be read`,
+      ConverterErrorType.INVALID_FIELD,
+      { fieldName: target }
+    );
+  }
+  const chain: PathTransform<FromObj, Ctx>[] = [options.transform ?? []].flat();
+  const write = (value: unknown): Partial<ToObj> =>
+    (targetSegments as string[]).reduceRight<unknown>((nested, key) => ({ [key]: nested }), value) as Partial<ToObj>;
+
+  return (fromObj, ctx) => {
+    const found = readPath(fromObj, sourceSegments);
+    const value = found === undefined ? options.default : found;
+    const result = chain.reduce<unknown>(
+      (current, transform) =>
+        isThenable(current) ? Promise.resolve(current).then((v) => transform(v, fromObj, ctx)) : transform(current, fromObj, ctx),
+      value
+    );
+    return isThenable(result) ? Promise.resolve(result).then(write) : write(result);
+  };
+}
+
+/**
+ * Keys of `T` that are not optional, ignoring index signatures such as the one
+ * inherited from {@link GenericObject}
+ *
+ * @typedef RequiredKeys
+ * @template T
+ */
+export type RequiredKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : {} extends Pick<T, K> ? never : K]: T[K];
+};
+
+/**
+ * Chainable alternative to the positional {@link ConverterDefinition} callback
+ *
+ * Each call returns a new builder whose type records the target keys mapped so far. `build` is only
+ * callable once every required key of `ToObj` has been mapped by `field`, `obj` or `map`; otherwise its type
+ * names the missing keys.
+ *
+ * @interface ConverterBuilder
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template Mapped - Target keys mapped so far
+ */
+export interface ConverterBuilder<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject,
+  Mapped extends keyof ToObj = never
+> {
+  /**
+   * Registers a field converter
+   * @param {keyof ToObj} name - The target field
+   * @param {FieldFunction} fn - Converts the field
+   * @param {FieldOptions<ToObj>} [options] - Field options
+   */
+  field: <K extends keyof ToObj>(
+    name: K,
+    fn: FieldFunction<FromObj, Ctx, ToObj, ToObj[K]>,
+    options?: FieldOptions<ToObj, ToObj[K]>
+  ) => ConverterBuilder<FromObj, ToObj, Ctx, Mapped | K>;
+
+  /**
+   * Registers an object function; the keys of the returned object count as mapped
+   * @param {ObjectFunction} fn - Transforms the object
+   * @param {boolean} [executeFns=true] - Whether to execute function values in the result
+   * @param {ObjectOptions<ToObj>} [options] - Object function options
+   */
+  obj: <R extends Partial<ToObj> | void>(
+    fn: (fromObj: FromObj, ctx: Ctx, toObj: Partial<ToObj>) => R | Promise<R>,
+    executeFns?: boolean,
+    options?: ObjectOptions<ToObj>
+  ) => ConverterBuilder<FromObj, ToObj, Ctx, Mapped | (keyof Exclude<R, void> & keyof ToObj)>;
+
+  /**
+   * Registers a {@link map} entry; the first segment of the target path counts as mapped
+   * @param {Path<FromObj>} source - Path to read from the source object
+   * @param {TargetPath<ToObj>} target - Path to write in the target object
+   * @param {MapOptions} [options] - Transform chain and default value
+   */
+  map: <S extends Path<FromObj>, T extends TargetPath<ToObj>>(
+    source: S,
+    target: T,
+    options?: MapOptions<FromObj, Ctx, PathValue<FromObj, S>>
+  ) => ConverterBuilder<FromObj, ToObj, Ctx, Mapped | ((T extends `${infer Head}.${string}` ? Head : T) & keyof ToObj)>;
+
+  /**
+   * Registers a pre-hook
+   * @param {HookFunction} fn - The hook
+   * @param {string} [name] - The hook name
+   * @param {HookOptions} [options] - Hook options
+   */
+  pre: (
+    fn: HookFunction<FromObj, ToObj, Ctx>,
+    name?: string,
+    options?: HookOptions
+  ) => ConverterBuilder<FromObj, ToObj, Ctx, Mapped>;
+
+  /**
+   * Registers a post-hook
+   * @param {HookFunction} fn - The hook
+   * @param {string} [name] - The hook name
+   * @param {HookOptions} [options] - Hook options
+   */
+  post: (
+    fn: HookFunction<FromObj, ToObj, Ctx>,
+    name?: string,
+    options?: HookOptions
+  ) => ConverterBuilder<FromObj, ToObj, Ctx, Mapped>;
+
+  /**
+   * Creates the converter with {@link createConverter}
+   * @param {ConverterOptions<ToObj, Ctx, FromObj>} [options] - Configuration options
+   * @returns {Converter<FromObj, ToObj, Ctx>} The converter function
+   */
+  build: [Exclude<RequiredKeys<ToObj>, Mapped>] extends [never]
+    ? (options?: ConverterOptions<ToObj, Ctx, FromObj>) => Converter<FromObj, ToObj, Ctx>
+    : { 'Missing required fields': Exclude<RequiredKeys<ToObj>, Mapped> };
+}
+
+/**
+ * Starts a chainable converter definition
+ *
+ * The built converter is created by {@link createConverter} with the registrations replayed
+ * in order, so it behaves exactly like the equivalent positional definition.
+ *
+ * @function converter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @returns {ConverterBuilder<FromObj, ToObj, Ctx>} An empty builder
+ * @example
+ * const toUser = converter<ApiUser, User>()
+ *   .field('id', (from) => from.user_id)
+ *   .field('name', (from) => from.user_name)
+ *   .post((ctx, from, to) => { to.name = to.name.trim(); })
+ *   .build({ logger: console });
+ */
+export function converter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(): ConverterBuilder<FromObj, ToObj, Ctx> {
+  type Step = (...registrars: Parameters<ConverterDefinition<FromObj, ToObj, Ctx>>) => void;
+
+  const createBuilder = (steps: Step[]): ConverterBuilder<FromObj, ToObj, Ctx, any> => ({
+    field: (name, fn, options) => createBuilder([...steps, (field) => field(name, fn, options)]),
+    obj: (fn, executeFns, options) =>
+      createBuilder([...steps, (_field, obj) => obj(fn as ObjectFunction<FromObj, ToObj, Ctx>, executeFns, options)]),
+    map: (source, target, options) =>
+      createBuilder([...steps, (_field, obj) => obj(map<FromObj, ToObj, Ctx, typeof source, typeof target>(source, target, options))]),
+    pre: (fn, name, options) => createBuilder([...steps, (_field, _obj, pre) => pre(fn, name, options)]),
+    post: (fn, name, options) => createBuilder([...steps, (_field, _obj, _pre, post) => post(fn, name, options)]),
+    build: (options?: ConverterOptions<ToObj, Ctx, FromObj>) =>
+      createConverter<FromObj, ToObj, Ctx>((...registrars) => {
+        for (const step of steps) step(...registrars);
+      }, options),
+  });
+
+  return createBuilder([]);
+}
+
+/**
+ * Creates a bidirectional converter from a single definition
+ *
+ * Every field is declared once as a pair, and both the `forward` (A to B) and `reverse` (B to A)
+ * converters are derived from it with {@link createConverter}. Pairs without a `set` function are
+ * rejected at definition time unless they are explicitly marked `oneWay`.
+ *
+ * @function createBidirectionalConverter
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ * @param {BidirectionalDefinition<A, B, Ctx>} fn - Bidirectional definition function
+ * @param {BidirectionalConverterOptions<A, B, Ctx>} [options] - Configuration options
+ * @returns {BidirectionalConverter<A, B, Ctx>} The forward and reverse converters
+ * @throws {ConverterError} If a field pair has no inverse and is not marked `oneWay`
+ * @example
+ * const users = createBidirectionalConverter<ApiUser, User>((pair) => {
+ *   pair('user_id', 'id');
+ *   pair('createdAt', {
+ *     get: (from) => new Date(from.created_at),
+ *     set: (from) => ({ created_at: from.createdAt.toISOString() }),
+ *   });
+ * });
+ *
+ * const user = await users.forward(apiUser);
+ * const apiUserAgain = await users.reverse(getPrimary(user));
+ */
+export function createBidirectionalConverter<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  fn: BidirectionalDefinition<A, B, Ctx>,
+  options: BidirectionalConverterOptions<A, B, Ctx> = {}
+): BidirectionalConverter<A, B, Ctx> {
+  const { forward: forwardOptions, reverse: reverseOptions, ...shared } = options;
+  const context = shared.context ?? ({} as Ctx);
+
+  const renames: [string, string][] = [];
+  const pairs: [keyof B, FieldPair<A, B, Ctx, keyof B>][] = [];
+  const preHooks: [DirectionalHooks<A, B, Ctx>, string | undefined][] = [];
+  const postHooks: [DirectionalHooks<A, B, Ctx>, string | undefined][] = [];
+
+  const pair = ((name: keyof A | keyof B, mapping: keyof B | FieldPair<A, B, Ctx, keyof B>): void => {
     if (name === undefined || name === null || name === '') {
       throw new ConverterError(
         'Invalid field name: Field name cannot be empty',
         ConverterErrorType.INVALID_FIELD
       );
     }
-    fieldFns.push([name, _fn, options]);
+    if (typeof mapping === 'object' && mapping !== null) {
+      pairs.push([name as keyof B, mapping]);
+    } else {
+      renames.push([String(name), String(mapping)]);
+    }
+  }) as PairFunction<A, B, Ctx>;
+
+  // A rename to a top-level key stays a field; one to a nested path is written by `map`
+  const rename = <From extends GenericObject, To extends GenericObject>(
+    field: (name: keyof To, fn: FieldFunction<From, Ctx, To, To[keyof To]>) => void,
+    obj: (fn: ObjectFunction<From, To, Ctx>) => void,
+    from: string,
+    to: string
+  ): void => {
+    const targetSegments = parsePath(to);
+    if (targetSegments.length > 1 || typeof targetSegments[0] !== 'string') {
+      obj(map<From, To, Ctx>(from as Path<From>, to as TargetPath<To>));
+      return;
+    }
+    const sourceSegments = parsePath(from);
+    field(to as keyof To, (source) => readPath(source, sourceSegments) as To[keyof To]);
+  };
+
+  const pre = (hooks: DirectionalHooks<A, B, Ctx>, name?: string): void => {
+    preHooks.push([hooks, name]);
+  };
+
+  const post = (hooks: DirectionalHooks<A, B, Ctx>, name?: string): void => {
+    postHooks.push([hooks, name]);
+  };
+
+  fn(pair, pre, post, context);
+
+  const missingInverse = pairs
+    .filter(([, mapping]) => !mapping.set && !mapping.oneWay)
+    .map(([name]) => String(name));
+  if (missingInverse.length > 0) {
+    throw new ConverterError(
+      `Field pairs without an inverse: ${missingInverse.join(', ')}. Provide a 'set' function or mark them 'oneWay'`,
+      ConverterErrorType.INVALID_FIELD,
+      { fieldName: missingInverse[0] }
+    );
+  }
+
+  const forward = createConverter<A, B, Ctx>((field, obj, preHook, postHook) => {
+    for (const [hooks, name] of preHooks) if (hooks.forward) preHook(hooks.forward, name);
+    for (const [aPath, bPath] of renames) rename<A, B>(field, obj, aPath, bPath);
+    for (const [name, mapping] of pairs) field(name, mapping.get);
+    for (const [hooks, name] of postHooks) if (hooks.forward) postHook(hooks.forward, name);
+  }, { ...shared, ...forwardOptions } as ConverterOptions<B, Ctx, A>);
+
+  const reverse = createConverter<B, A, Ctx>((field, obj, preHook, postHook) => {
+    for (const [hooks, name] of preHooks) if (hooks.reverse) preHook(hooks.reverse, name);
+    for (const [aPath, bPath] of renames) rename<B, A>(field, obj, bPath, aPath);
+    for (const [, mapping] of pairs) if (mapping.set) obj(mapping.set, false);
+    for (const [hooks, name] of postHooks) if (hooks.reverse) postHook(hooks.reverse, name);
+  }, { ...shared, ...reverseOptions } as ConverterOptions<A, Ctx, B>);
+
+  return { forward, reverse };
+}
+
+/**
+ * Equivalence check for a single path in a round-trip comparison
+ *
+ * Returns true when the original and round-tripped values should be treated as equal.
+ * The string `'ignore'` skips the path entirely.
+ *
+ * @typedef {function | 'ignore'} Equivalence
+ */
+export type Equivalence = ((original: any, roundTripped: any) => boolean) | 'ignore';
+
+/**
+ * Built-in equivalences for round-trip checks
+ *
+ * @namespace equivalences
+ */
+export const equivalences = {
+  /**
+   * Skips the path entirely
+   * @example
+   * checkRoundTrip(users, { a: samples, equivalences: { a: { updatedAt: equivalences.ignore } } });
+   */
+  ignore: 'ignore' as Equivalence,
+
+  /**
+   * Treats Dates, date strings and timestamps as equal when they describe the same instant
+   * @param {any} original - The original value
+   * @param {any} roundTripped - The round-tripped value
+   * @returns {boolean} True if both values describe the same instant
+   * @example
+   * equivalences.sameInstant(new Date(0), '1970-01-01T00:00:00.000Z'); // true
+   */
+  sameInstant: (original: any, roundTripped: any): boolean => {
+    const toTime = (value: any) =>
+      value instanceof Date ? value.getTime() : typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+    const a = toTime(original);
+    const b = toTime(roundTripped);
+    return !isNaN(a) && a === b;
+  },
+
+  /**
+   * Treats numbers as equal when they differ by at most `epsilon`
+   * @param {number} epsilon - The allowed difference
+   * @returns {function} The equivalence function
+   * @example
+   * equivalences.tolerance(0.01)(1.005, 1.01); // true
+   */
+  tolerance: (epsilon: number) => (original: any, roundTripped: any): boolean =>
+    typeof original === 'number' && typeof roundTripped === 'number' && Math.abs(original - roundTripped) <= epsilon,
+};
+
+/**
+ * A single place where a round trip did not return the original value
+ *
+ * @interface RoundTripMismatch
+ */
+export interface RoundTripMismatch {
+  /** @type {'forward' | 'reverse'} direction 'forward' checks reverse(forward(a)), 'reverse' checks forward(reverse(b)) */
+  direction: 'forward' | 'reverse';
+
+  /** @type {number} sample Index of the sample that failed */
+  sample: number;
+
+  /** @type {string} path Path of the mismatching value, e.g. `nested.property` or `tags[1]` (empty for the root) */
+  path: string;
+
+  /** @type {any} expected The original value */
+  expected: any;
+
+  /** @type {any} actual The round-tripped value */
+  actual: any;
+
+  /** @type {Error} [error] The error thrown by the conversion, if it failed */
+  error?: Error;
+}
+
+/**
+ * Result of a round-trip check
+ *
+ * @interface RoundTripReport
+ */
+export interface RoundTripReport {
+  /** @type {boolean} ok True if every sample round-tripped to an equivalent value */
+  ok: boolean;
+
+  /** @type {number} checked Number of samples checked */
+  checked: number;
+
+  /** @type {RoundTripMismatch[]} mismatches Every mismatch found, in sample order */
+  mismatches: RoundTripMismatch[];
+}
+
+/**
+ * Options for a round-trip check
+ *
+ * @interface RoundTripOptions
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ */
+export interface RoundTripOptions<A extends GenericObject, B extends GenericObject, Ctx extends GenericObject> {
+  /** @type {A[]} [a] Samples checked with reverse(forward(a)) */
+  a?: A[];
+
+  /** @type {B[]} [b] Samples checked with forward(reverse(b)) */
+  b?: B[];
+
+  /**
+   * Per-path equivalence overrides, keyed by paths on A and on B.
+   * Array indexes can be matched with `[*]`, e.g. `items[*].price`.
+   */
+  equivalences?: {
+    a?: Record<string, Equivalence>;
+    b?: Record<string, Equivalence>;
+  };
+
+  /** @type {Partial<Ctx>} [context] Additional context passed to every conversion */
+  context?: Partial<Ctx>;
+}
+
+const isPlainObject = (value: unknown): value is GenericObject =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const compareRoundTrip = (
+  expected: any,
+  actual: any,
+  path: string,
+  overrides: Record<string, Equivalence>,
+  report: (path: string, expected: any, actual: any) => void
+): void => {
+  const override = overrides[path] ?? overrides[path.replace(/\[\d+\]/g, '[*]')];
+  if (override === 'ignore') return;
+  if (override) {
+    if (!override(expected, actual)) report(path, expected, actual);
+    return;
+  }
+
+  if (expected instanceof Date && actual instanceof Date) {
+    if (expected.getTime() !== actual.getTime()) report(path, expected, actual);
+    return;
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    for (let i = 0; i < length; i++) {
+      compareRoundTrip(expected[i], actual[i], `${path}[${i}]`, overrides, report);
+    }
+    return;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      compareRoundTrip(expected[key], actual[key], path ? `${path}.${key}` : key, overrides, report);
+    }
+    return;
+  }
+
+  if (!Object.is(expected, actual)) report(path, expected, actual);
+};
+
+/**
+ * Checks that a bidirectional converter round-trips its samples
+ *
+ * Runs `reverse(forward(a))` for every `a` sample and `forward(reverse(b))` for every `b` sample,
+ * and reports each path where the result is not equivalent to the original. Primary objects are
+ * compared; additional objects from `Many` results are ignored.
+ *
+ * @function checkRoundTrip
+ * @template A - First object type
+ * @template B - Second object type
+ * @template Ctx - Context object type
+ * @param {BidirectionalConverter<A, B, Ctx>} converter - The converter to check
+ * @param {RoundTripOptions<A, B, Ctx>} options - Samples and equivalence overrides
+ * @returns {Promise<RoundTripReport>} The report
+ * @example
+ * const report = await checkRoundTrip(users, {
+ *   a: [apiUser],
+ *   equivalences: { a: { created_at: equivalences.sameInstant } },
+ * });
+ * expect(report.mismatches).toEqual([]);
+ */
+export async function checkRoundTrip<
+  A extends GenericObject,
+  B extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  converter: BidirectionalConverter<A, B, Ctx>,
+  options: RoundTripOptions<A, B, Ctx>
+): Promise<RoundTripReport> {
+  const { a = [], b = [], equivalences: overrides = {}, context } = options;
+  const mismatches: RoundTripMismatch[] = [];
+
+  const check = async <From extends GenericObject, To extends GenericObject>(
+    direction: RoundTripMismatch['direction'],
+    samples: From[],
+    there: (fromObj: From, additionalCtx?: Partial<Ctx>) => Promise<To | Many<To>>,
+    back: (fromObj: To, additionalCtx?: Partial<Ctx>) => Promise<From | Many<From>>,
+    pathOverrides: Record<string, Equivalence>
+  ) => {
+    for (const [sample, original] of samples.entries()) {
+      try {
+        const converted = getPrimary(await there(original, context));
+        const roundTripped = getPrimary(await back(converted, context));
+        compareRoundTrip(original, roundTripped, '', pathOverrides, (path, expected, actual) =>
+          mismatches.push({ direction, sample, path, expected, actual })
+        );
+      } catch (err) {
+        mismatches.push({ direction, sample, path: '', expected: original, actual: undefined, error: err as Error });
+      }
+    }
   };
 
-  const obj = (_fn: ObjectFunction<FromObj, ToObj, Ctx>, executeFns = true): void => {
-    logger.debug('Registering object converter');
-    if (typeof _fn !== 'function') {
-      throw new ConverterError(
-        'Invalid object function: Must be a function',
-        ConverterErrorType.OBJECT_CONVERSION
-      );
+  await check<A, B>('forward', a, converter.forward, converter.reverse, overrides.a ?? {});
+  await check<B, A>('reverse', b, converter.reverse, converter.forward, overrides.b ?? {});
+
+  return { ok: mismatches.length === 0, checked: a.length + b.length, mismatches };
+}
+
+/**
+ * Any function that converts a single object, such as a {@link Converter} or a bidirectional `forward`
+ *
+ * @typedef {function} ConvertFunction
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export type ConvertFunction<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> = (fromObj: FromObj, additionalCtx?: Partial<Ctx> & AbortableContext) => Promise<ToObj | Many<ToObj>>;
+
+/**
+ * Options for the streaming adapters
+ *
+ * @interface StreamOptions
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export interface StreamOptions<ToObj extends GenericObject, Ctx extends GenericObject = GenericObject> {
+  /** @type {number} [concurrency=1] Maximum number of conversions in flight at once */
+  concurrency?: number;
+
+  /** @type {Partial<Ctx>} [context] Additional context passed to every conversion */
+  context?: Partial<Ctx>;
+
+  /**
+   * @type {'flatten' | 'side'} [additional='flatten'] Whether additional objects from `Many` results
+   * are written to the output after their primary object, or only emitted through `onAdditional`
+   * (and the `additional` event of Node streams)
+   */
+  additional?: 'flatten' | 'side';
+
+  /** @type {function} [onAdditional] Receives additional objects when `additional` is `'side'` */
+  onAdditional?: (additional: ToObj[], primary: ToObj) => void;
+}
+
+/**
+ * Converts items in order with a bounded number of conversions in flight
+ *
+ * `push` resolves once there is room for another item, which is what gives the adapters backpressure.
+ */
+const createConversionWindow = <FromObj extends GenericObject, ToObj extends GenericObject, Ctx extends GenericObject>(
+  converter: ConvertFunction<FromObj, ToObj, Ctx>,
+  { concurrency = 1, context, additional = 'flatten', onAdditional }: StreamOptions<ToObj, Ctx>,
+  emit: (obj: ToObj) => void
+) => {
+  const pending: Promise<ToObj | Many<ToObj>>[] = [];
+
+  const emitOldest = async () => {
+    const result = await pending.shift()!;
+    const primary = getPrimary(result);
+    const extras = getAdditional(result);
+    emit(primary);
+    if (extras.length === 0) return;
+    if (additional === 'flatten') {
+      extras.forEach(emit);
+    } else {
+      onAdditional?.(extras, primary);
     }
-    objectFns.push([_fn, executeFns]);
   };
 
-  const pre = (_fn: HookFunction<FromObj, ToObj, Ctx>, name = _fn.name || 'anonymous'): void => {
-    logger.debug(`Registering pre-hook: ${name}`);
-    if (typeof _fn !== 'function') {
-      throw new ConverterError(
-        'Invalid pre-hook: Must be a function',
-        ConverterErrorType.PRE_HOOK
-      );
-    }
-    preHooks.push([_fn, name]);
+  return {
+    push: async (item: FromObj): Promise<void> => {
+      const conversion = converter(item, context);
+      // Results are awaited in order; this keeps a later failure from being reported as unhandled first.
+      conversion.catch(() => {});
+      pending.push(conversion);
+      if (pending.length >= Math.max(1, concurrency)) await emitOldest();
+    },
+    drain: async (): Promise<void> => {
+      while (pending.length > 0) await emitOldest();
+    },
   };
+};
 
-  const post = (_fn: HookFunction<FromObj, ToObj, Ctx>, name = _fn.name || 'anonymous'): void => {
-    logger.debug(`Registering post-hook: ${name}`);
-    if (typeof _fn !== 'function') {
-      throw new ConverterError(
-        'Invalid post-hook: Must be a function',
-        ConverterErrorType.POST_HOOK
-      );
-    }
-    postHooks.push([_fn, name]);
-  };
+/**
+ * Converts an iterable of source objects as an async generator
+ *
+ * Source items are only pulled when the consumer asks for more output, and at most
+ * `concurrency` conversions run at once. Output order matches input order.
+ *
+ * @function convertIterable
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @param {ConvertFunction<FromObj, ToObj, Ctx>} converter - The converter to apply
+ * @param {AsyncIterable<FromObj> | Iterable<FromObj>} source - The source objects
+ * @param {StreamOptions<ToObj, Ctx>} [options] - Streaming options
+ * @returns {AsyncGenerator<ToObj>} The converted objects
+ * @example
+ * for await (const user of convertIterable(userConverter, readNdjson('users.ndjson'), { concurrency: 4 })) {
+ *   await save(user);
+ * }
+ */
+export async function* convertIterable<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  converter: ConvertFunction<FromObj, ToObj, Ctx>,
+  source: AsyncIterable<FromObj> | Iterable<FromObj>,
+  options: StreamOptions<ToObj, Ctx> = {}
+): AsyncGenerator<ToObj> {
+  const output: ToObj[] = [];
+  const window = createConversionWindow(converter, options, (obj) => output.push(obj));
 
-  fn(field, obj, pre, post, add, defaults, context);
-  logger.info('Converter initialized with configuration', {
-    fieldCount: fieldFns.length,
-    objectCount: objectFns.length,
-    preHookCount: preHooks.length,
-    postHookCount: postHooks.length,
-    requiredFields,
+  for await (const item of source) {
+    await window.push(item);
+    yield* output.splice(0);
+  }
+  await window.drain();
+  yield* output.splice(0);
+}
+
+/**
+ * Creates a WHATWG TransformStream that applies a converter
+ *
+ * Uses the global `TransformStream` of browsers, edge runtimes and Node.js 18 and later.
+ *
+ * @function createTransformStream
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @param {ConvertFunction<FromObj, ToObj, Ctx>} converter - The converter to apply
+ * @param {StreamOptions<ToObj, Ctx>} [options] - Streaming options
+ * @returns {TransformStream<FromObj, ToObj>} The transform stream
+ * @example
+ * const users = response.body.pipeThrough(ndjsonParser()).pipeThrough(createTransformStream(userConverter));
+ */
+export function createTransformStream<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  converter: ConvertFunction<FromObj, ToObj, Ctx>,
+  options: StreamOptions<ToObj, Ctx> = {}
+): TransformStream<FromObj, ToObj> {
+  let window: ReturnType<typeof createConversionWindow<FromObj, ToObj, Ctx>>;
+
+  return new TransformStream<FromObj, ToObj>({
+    start(controller) {
+      window = createConversionWindow(converter, options, (obj) => controller.enqueue(obj));
+    },
+    transform(chunk) {
+      return window.push(chunk);
+    },
+    flush() {
+      return window.drain();
+    },
   });
+}
 
-  return async (fromObj: FromObj, additionalCtx: Partial<Ctx> = {}): Promise<ToObj | Many<ToObj>> => {
-    if (typeof fromObj !== 'object' || fromObj === null) {
-      const error = new ConverterError(
-        'Source object must be a non-null object',
-        ConverterErrorType.INVALID_SOURCE,
-        { source: fromObj }
-      );
-      if (errorHandling === 'throw') throw error;
-      logger.error(error.message, { source: fromObj });
-      return { ...defaults } as ToObj;
-    }
+/**
+ * Options for {@link createLruCache}
+ *
+ * @interface LruCacheOptions
+ */
+export interface LruCacheOptions {
+  /** @type {number} [max=1000] Maximum number of entries; the least recently used one is evicted first */
+  max?: number;
 
-    const workingCtx = { ...context, ...additionalCtx } as Ctx;
-    additional.length = 0;
-    let newObj = { ...defaults } as Partial<ToObj>;
+  /** @type {number} [ttl] Milliseconds an entry stays valid after it was stored (optional) */
+  ttl?: number;
+}
 
-    try {
-      for (const [hook, name] of preHooks) {
-        logger.debug(`Executing pre-hook: ${name}`);
-        try {
-          await hook(workingCtx, fromObj, newObj, add);
-        } catch (err) {
-          const error = new ConverterError(
-            `Error in pre-hook '${name}': ${(err as Error).message}`,
-            ConverterErrorType.PRE_HOOK,
-            { source: fromObj, originalError: err as Error }
-          );
-          if (errorHandling === 'throw') throw error;
-          logger.error(error.message, { hook: name, error: err });
-        }
-      }
+/**
+ * Creates an in-memory cache that evicts the least recently used entries, for the `cache` option
+ *
+ * @function createLruCache
+ * @template K - Key type
+ * @template V - Value type
+ * @param {LruCacheOptions} [options] - Size and time-to-live limits
+ * @returns {ConverterCache<K, V>} The cache
+ * @example
+ * const toProduct = createConverter<ApiProduct, Product>(definitionFn, {
+ *   cache: { key: (from) => from.sku, store: createLruCache({ max: 500, ttl: 60_000 }) },
+ * });
+ */
+export function createLruCache<K = unknown, V = unknown>({ max = 1000, ttl }: LruCacheOptions = {}): ConverterCache<K, V> {
+  // Maps iterate in insertion order, so re-inserting an entry marks it as most recently used
+  const entries = new Map<K, { value: V; expires: number }>();
 
-      for (const [name, fn, options] of fieldFns) {
-        logger.debug(`Converting field: ${String(name)}`);
-        try {
-          const result = await fn(fromObj, workingCtx, { ...newObj });
-          newObj = mergeStrategy<ToObj>(newObj, { [name]: result } as Partial<ToObj>);
-        } catch (err) {
-          const error = new ConverterError(
-            `Error converting field '${String(name)}': ${(err as Error).message}`,
-            ConverterErrorType.FIELD_CONVERSION,
-            { source: fromObj, fieldName: String(name), originalError: err as Error }
-          );
-          if (errorHandling === 'throw') throw error;
-          logger.error(error.message, { field: name, error: err });
-        }
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expires <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, { value, expires: ttl === undefined ? Infinity : Date.now() + ttl });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= max) break;
+        entries.delete(oldest);
       }
+    },
+    delete: (key) => entries.delete(key),
+    clear: () => entries.clear(),
+  };
+}
 
-      for (const [fn, executeFns] of objectFns) {
-        logger.debug('Executing object function');
-        try {
-          const result = await fn(fromObj, workingCtx, { ...newObj });
-          if (typeof result === 'object' && result !== null) {
-            if (executeFns) {
-              // Use Record<string, any> to allow indexing with string keys
-              const clone: Record<string, any> = { ...result };
-              for (const [key, value] of Object.entries(result)) {
-                if (typeof value === 'function')
-                  clone[key] = await (value as any)(fromObj, workingCtx, { ...newObj });
-              }
-              newObj = mergeStrategy<ToObj>(newObj, clone as Partial<ToObj>);
-            } else {
-              newObj = mergeStrategy<ToObj>(newObj, result as Partial<ToObj>);
-            }
-          }
-        } catch (err) {
-          const error = new ConverterError(
-            `Error in object function: ${(err as Error).message}`,
-            ConverterErrorType.OBJECT_CONVERSION,
-            { source: fromObj, originalError: err as Error }
-          );
-          if (errorHandling === 'throw') throw error;
-          logger.error(error.message, { error: err });
-        }
-      }
+/**
+ * Loads the values of many keys at once, for {@link createLoader}
+ *
+ * Must return one entry per key, in the order of `keys`. An `Error` entry fails only the
+ * `load` call for that key.
+ *
+ * @typedef {function} BatchFunction
+ * @template K - Key type
+ * @template V - Value type
+ */
+export type BatchFunction<K, V> = (keys: K[]) => Promise<ReadonlyArray<V | Error>> | ReadonlyArray<V | Error>;
 
-      for (const [hook, name] of postHooks) {
-        logger.debug(`Executing post-hook: ${name}`);
-        try {
-          await hook(workingCtx, fromObj, newObj, add);
-        } catch (err) {
-          const error = new ConverterError(
-            `Error in post-hook '${name}': ${(err as Error).message}`,
-            ConverterErrorType.POST_HOOK,
-            { source: fromObj, originalError: err as Error }
-          );
-          if (errorHandling === 'throw') throw error;
-          logger.error(error.message, { hook: name, error: err });
-        }
-      }
+/**
+ * Options for {@link createLoader}
+ *
+ * @interface LoaderOptions
+ * @template K - Key type
+ */
+export interface LoaderOptions<K> {
+  /** @type {number} [maxBatchSize=Infinity] Maximum number of keys passed to one batch function call */
+  maxBatchSize?: number;
 
-      if (requiredFields.length > 0) {
-        const missingFields = validator.validateRequired(newObj, requiredFields as (keyof ToObj)[]);
-        if (missingFields.length > 0) {
-          const error = new ConverterError(
-            `Missing required fields: ${missingFields.join(', ')}`,
-            ConverterErrorType.VALIDATION,
-            { source: fromObj }
-          );
-          if (errorHandling === 'throw') throw error;
-          logger.error(error.message, { missingFields });
-        }
-      }
+  /** @type {(key: K) => unknown} [cacheKey] Identifies equal keys, such as object keys with the same id */
+  cacheKey?: (key: K) => unknown;
 
-      if (additional.length > 0) {
-        logger.info('Conversion complete with additional objects', { count: additional.length + 1 });
-        return new Many<ToObj>(newObj as ToObj, ...(additional as ToObj[]));
+  /**
+   * @type {(dispatch: () => void) => void} [schedule] Decides when the collected keys are loaded.
+   * By default, that happens once every promise callback that is already queued has run.
+   */
+  schedule?: (dispatch: () => void) => void;
+}
+
+/**
+ * Batches the lookups of field functions, created by {@link createLoader}
+ *
+ * @interface Loader
+ * @template K - Key type
+ * @template V - Value type
+ */
+export interface Loader<K, V> {
+  /** Loads the value of a key with the next batch */
+  load: (key: K) => Promise<V>;
+
+  /** Loads the values of several keys with the next batch */
+  loadMany: (keys: readonly K[]) => Promise<V[]>;
+}
+
+/**
+ * Creates a loader that collects the keys requested while objects are converted and loads them
+ * with a single call of `batchFn`
+ *
+ * Calls of `load` made while converting a list, in the same tick, end up in one batch, and a key
+ * requested several times is loaded once per batch. A failed key rejects the `load` calls for
+ * that key only, so the error is reported as a `FIELD_CONVERSION` error of the field, and object,
+ * that asked for it. Results are not cached between batches; create a loader per request and
+ * pass it through the context.
+ *
+ * @function createLoader
+ * @template K - Key type
+ * @template V - Value type
+ * @param {BatchFunction<K, V>} batchFn - Loads the values of many keys at once
+ * @param {LoaderOptions<K>} [options] - Batch size, key identity and scheduling
+ * @returns {Loader<K, V>} The loader
+ * @example
+ * const toPost = createConverter<ApiPost, Post, { users: Loader<string, User> }>((field) => {
+ *   field('author', (from, ctx) => ctx.users.load(from.author_id));
+ * });
+ *
+ * const users = createLoader((ids: string[]) => db.users.findByIds(ids));
+ * await toPost.convertAll(apiPosts, { context: { users } });
+ */
+export function createLoader<K, V>(
+  batchFn: BatchFunction<K, V>,
+  {
+    maxBatchSize = Infinity,
+    cacheKey = (key) => key,
+    schedule = (dispatch) => {
+      // Outside Node.js there is no `nextTick`, so wait for the next task instead
+      const runtime = globalThis as { process?: { nextTick?: (callback: () => void) => void } };
+      if (runtime.process?.nextTick) Promise.resolve().then(() => runtime.process?.nextTick?.(dispatch));
+      else setTimeout(dispatch, 0);
+    },
+  }: LoaderOptions<K> = {}
+): Loader<K, V> {
+  type Pending = { key: K; waiters: { resolve: (value: V) => void; reject: (reason: unknown) => void }[] };
+  let queue: Map<unknown, Pending> | undefined;
+
+  const loadBatch = async (batch: Pending[]): Promise<void> => {
+    try {
+      const values = await batchFn(batch.map(({ key }) => key));
+      if (values.length !== batch.length) {
+        throw new ConverterError(
+          `The batch function returned ${values.length} values for ${batch.length} keys`,
+          ConverterErrorType.FIELD_CONVERSION
+        );
       }
-      logger.info('Conversion complete');
-      return newObj as ToObj;
+      batch.forEach(({ waiters }, index) => {
+        const value = values[index];
+        for (const { resolve, reject } of waiters) {
+          if (value instanceof Error) reject(value);
+          else resolve(value);
+        }
+      });
     } catch (err) {
-      logger.error('Conversion failed', { error: err });
-      throw err;
+      for (const { waiters } of batch) for (const { reject } of waiters) reject(err);
+    }
+  };
+
+  const dispatch = (): void => {
+    const pending = [...(queue?.values() ?? [])];
+    queue = undefined;
+    for (let start = 0; start < pending.length; start += maxBatchSize) {
+      void loadBatch(pending.slice(start, start + maxBatchSize));
     }
   };
+
+  const load = (key: K): Promise<V> =>
+    new Promise<V>((resolve, reject) => {
+      if (!queue) {
+        queue = new Map();
+        schedule(dispatch);
+      }
+      const id = cacheKey(key);
+      const pending = queue.get(id) ?? { key, waiters: [] };
+      pending.waiters.push({ resolve, reject });
+      queue.set(id, pending);
+    });
+
+  return {
+    load,
+    loadMany: (keys) => Promise.all(keys.map(load)),
+  };
+}
+
+/**
+ * The parts of a tracing span used by {@link createSpanInstrumentation}, matching the
+ * OpenTelemetry `Span`
+ *
+ * @interface TraceSpan
+ */
+export interface TraceSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of a tracer used by {@link createSpanInstrumentation}, matching the OpenTelemetry `Tracer`
+ *
+ * @interface SpanTracer
+ */
+export interface SpanTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, string | number | boolean> },
+    context?: any
+  ): TraceSpan;
+}
+
+/**
+ * Options for {@link createSpanInstrumentation}
+ *
+ * @interface SpanInstrumentationOptions
+ */
+export interface SpanInstrumentationOptions {
+  /**
+   * @type {(parent: TraceSpan) => unknown} [contextFor] Turns the span of a parent step into the
+   * context passed to `startSpan`, such as `(span) => trace.setSpan(context.active(), span)`.
+   * Without it, spans start in the tracer's active context.
+   */
+  contextFor?: (parent: TraceSpan) => unknown;
+}
+
+// OpenTelemetry `SpanStatusCode` values
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Creates instrumentation that records every step of a conversion as a span of `tracer`
+ *
+ * Spans are named after the kind and name of the step, such as `field email`, and carry the
+ * `converter.step.kind`, `converter.step.name`, `converter.outcome`, `converter.duration_ms` and
+ * `converter.error_type` attributes. Failed steps record their error and get an error status.
+ *
+ * @function createSpanInstrumentation
+ * @param {SpanTracer} tracer - An OpenTelemetry tracer, or anything shaped like one
+ * @param {SpanInstrumentationOptions} [options] - How spans are linked to their parent
+ * @returns {Instrumentation} Instrumentation for `ConverterOptions`
+ * @example
+ * import { context, trace } from '@opentelemetry/api';
+ *
+ * const instrumentation = createSpanInstrumentation(trace.getTracer('api'), {
+ *   contextFor: (span) => trace.setSpan(context.active(), span),
+ * });
+ * const toUser = createConverter<ApiUser, User>(definition, { name: 'toUser', instrumentation });
+ */
+export function createSpanInstrumentation(
+  tracer: SpanTracer,
+  { contextFor }: SpanInstrumentationOptions = {}
+): Instrumentation {
+  const spans = new WeakMap<TraceStep, TraceSpan>();
+
+  return {
+    onStart: (step) => {
+      const parent = step.parent && spans.get(step.parent);
+      const attributes = { 'converter.step.kind': step.kind, 'converter.step.name': step.name };
+      const span = tracer.startSpan(
+        `${step.kind} ${step.name}`,
+        { attributes },
+        parent && contextFor ? contextFor(parent) : undefined
+      );
+      spans.set(step, span);
+    },
+    onEnd: (step, { outcome, duration, error, errorType }) => {
+      const span = spans.get(step);
+      if (!span) return;
+      spans.delete(step);
+      span.setAttribute('converter.outcome', outcome);
+      span.setAttribute('converter.duration_ms', duration);
+      if (errorType) span.setAttribute('converter.error_type', errorType);
+      if (outcome === 'success') {
+        span.setStatus({ code: SPAN_STATUS_OK });
+      } else {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+      }
+      span.end();
+    },
+  };
 }
 
 /**
@@ -867,21 +4344,193 @@ export function getAdditional<T>(result: T | Many<T>): T[] {
   return result instanceof Many ? Array.from(result).slice(1) : [];
 }
 
+/**
+ * Gets the errors a converter with `errorHandling: 'collect'` caught while producing a result
+ *
+ * Works on the result itself and on its primary object.
+ *
+ * @param result - The converter result
+ * @returns The collected errors (empty if none, or if the converter does not collect)
+ */
+export function getConversionErrors<T>(result: T | Many<T>): ConverterError[] {
+  if (typeof result !== 'object' || result === null) return [];
+  return (result as { [collectedErrors]?: ConverterError[] })[collectedErrors] ?? [];
+}
+
+type SpecElement<T> = NonNullable<T> extends readonly (infer E)[] ? E : NonNullable<T>;
+
+/**
+ * A spec entry for a single target key, used by {@link objToConverter}
+ *
+ * An entry is one of:
+ * - a field function, called with the source object of the enclosing spec
+ * - a converter, applied to the same-named source property (or to each of its elements)
+ * - a nested spec object, producing a nested target from the same source object
+ * - a one-element array holding an item spec, mapped over the same-named source array
+ * - any other static value, copied as is
+ *
+ * @typedef SpecEntry
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @template K - Target key
+ */
+export type SpecEntry<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject,
+  K extends keyof ToObj
+> =
+  | FieldFunction<FromObj, Ctx, ToObj, ToObj[K]>
+  | ToObj[K]
+  | (K extends keyof FromObj
+      ? SpecElement<FromObj[K]> extends GenericObject
+        ? SpecElement<ToObj[K]> extends GenericObject
+          ?
+              | Converter<SpecElement<FromObj[K]>, SpecElement<ToObj[K]>, Ctx>
+              | SyncConverter<SpecElement<FromObj[K]>, SpecElement<ToObj[K]>, Ctx>
+          : never
+        : never
+      : never)
+  | (NonNullable<ToObj[K]> extends readonly (infer E)[]
+      ? K extends keyof FromObj
+        ? E extends GenericObject
+          ? SpecElement<FromObj[K]> extends GenericObject
+            ? [ConverterSpec<SpecElement<FromObj[K]>, E, Ctx>]
+            : never
+          : never
+        : never
+      : NonNullable<ToObj[K]> extends GenericObject
+        ? ConverterSpec<FromObj, NonNullable<ToObj[K]>, Ctx>
+        : never);
+
+/**
+ * Object describing a conversion key by key, checked against `FromObj` and `ToObj`
+ *
+ * @typedef ConverterSpec
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ */
+export type ConverterSpec<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+> = {
+  [K in keyof ToObj]?: SpecEntry<FromObj, ToObj, Ctx, K>;
+};
+
+const isConverterFunction = (value: unknown): value is ConvertFunction<GenericObject, GenericObject> =>
+  typeof value === 'function' && 'safeConvert' in value;
+
+const isItemSpec = (value: unknown): value is [GenericObject] =>
+  Array.isArray(value) && value.length === 1 && isPlainObject(value[0]);
+
+/**
+ * Evaluates a nested spec entry; stays synchronous unless an entry returns a promise
+ */
+const evaluateSpecEntry = (
+  entry: unknown,
+  key: string,
+  path: (string | number)[],
+  fromObj: GenericObject,
+  ctx: GenericObject,
+  toObj: GenericObject
+): unknown => {
+  const fail = (err: unknown): never => {
+    throw toFieldError(path, err, fromObj);
+  };
+  try {
+    let result: unknown;
+    if (isConverterFunction(entry)) {
+      const convertOne = (value: unknown, prefix?: (string | number)[]) =>
+        value === undefined || value === null
+          ? value
+          : thenOrNow(runChild(() => entry(value as GenericObject, ctx), prefix), getPrimary);
+      const value = fromObj[key];
+      result = Array.isArray(value)
+        ? mapInOrder(value, (item, index) => convertOne(item, [index]))
+        : convertOne(value);
+    } else if (typeof entry === 'function') {
+      result = entry(fromObj, ctx, toObj);
+    } else if (isItemSpec(entry)) {
+      const items: unknown = fromObj[key];
+      result = Array.isArray(items)
+        ? mapInOrder(items, (item, index) => evaluateSpec(entry[0], [...path, index], item, ctx))
+        : undefined;
+    } else if (isPlainObject(entry)) {
+      result = evaluateSpec(entry, path, fromObj, ctx, toObj[key] ?? {});
+    } else {
+      return entry;
+    }
+    return isThenable(result) ? Promise.resolve(result).catch(fail) : result;
+  } catch (err) {
+    return fail(err);
+  }
+};
+
+/**
+ * Evaluates a nested spec object key by key, in order
+ */
+const evaluateSpec = (
+  spec: GenericObject,
+  path: (string | number)[],
+  fromObj: GenericObject,
+  ctx: GenericObject,
+  toObj: GenericObject = {}
+): GenericObject | Promise<GenericObject> =>
+  Object.entries(spec).reduce<GenericObject | Promise<GenericObject>>(
+    (acc, [key, entry]) =>
+      thenOrNow(acc, (partial) =>
+        thenOrNow(evaluateSpecEntry(entry, key, [...path, key], fromObj, ctx, partial), (value) =>
+          value === undefined ? partial : { ...partial, [key]: value }
+        )
+      ),
+    toObj
+  );
 
 /**
- * Creates a converter definition function from an object
- * @param {Object.<string, FieldFunction|any>} converterObj - The converter object
- * @returns {ConverterDefinition}
+ * Creates a converter definition function from a spec object
+ *
+ * Each key of the spec describes one key of the target; see {@link SpecEntry} for the accepted
+ * entries. Function entries at the top level are registered as fields, static values are merged
+ * by a single object function, and nested specs, item specs and converters are registered as
+ * fields that build their value recursively. Errors from nested entries report the full nested
+ * field name, such as `address.city` or `items[2].sku`. The types are inferred from the converter
+ * the definition is passed to, or can be given explicitly.
+ *
+ * @function objToConverter
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @param {ConverterSpec<FromObj, ToObj, Ctx>} converterObj - The spec object
+ * @returns {ConverterDefinition<FromObj, ToObj, Ctx>} A definition for {@link createConverter}
+ * @example
+ * const toOrderDto = createConverter<Order, OrderDto>(objToConverter({
+ *   id: (from) => from.orderId,
+ *   status: 'pending',
+ *   shipping: { city: (from) => from.address.city },
+ *   lines: [{ sku: (line) => line.code, quantity: (line) => line.qty }],
+ *   customer: toCustomerDto,
+ * }));
  */
-export function objToConverter(converterObj) {
+export function objToConverter<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(converterObj: ConverterSpec<NoInfer<FromObj>, NoInfer<ToObj>, NoInfer<Ctx>>): ConverterDefinition<FromObj, ToObj, Ctx> {
   return (field, obj) => {
-    const acc = {};
+    const acc: Partial<ToObj> = {};
 
-    for (const [fieldName, fieldFn] of Object.entries(converterObj)) {
-      if (typeof fieldFn === 'function') {
-        field(fieldName, fieldFn);
+    for (const [fieldName, entry] of Object.entries(converterObj) as [keyof ToObj & string, unknown][]) {
+      if (typeof entry === 'function' && !isConverterFunction(entry)) {
+        field(fieldName, entry as FieldFunction<FromObj, Ctx, ToObj>);
+      } else if (isConverterFunction(entry) || isItemSpec(entry) || isPlainObject(entry)) {
+        field(fieldName, (fromObj, ctx, toObj) =>
+          evaluateSpecEntry(entry, fieldName, [fieldName], fromObj, ctx, toObj) as ToObj[keyof ToObj & string]
+        );
       } else {
-        acc[fieldName] = fieldFn;
+        acc[fieldName] = entry as ToObj[keyof ToObj & string];
       }
     }
 
@@ -0,0 +1,52 @@
+/**
+ * Node.js adapters for converters
+ *
+ * Kept apart from the main entry point so that importing the library does not pull in Node.js
+ * modules in browsers and edge runtimes.
+ *
+ * @module @doeixd/create-converter/node
+ */
+
+import { Duplex } from 'node:stream';
+// Imported by package name, so this entry point shares the classes of the main one
+import { convertIterable } from '@doeixd/create-converter';
+import type { ConvertFunction, GenericObject, StreamOptions } from '@doeixd/create-converter';
+
+/**
+ * Creates an object-mode Node.js stream that applies a converter
+ *
+ * The stream is a `Duplex` that behaves like a `Transform`: it can be used anywhere in a
+ * pipeline. When `additional` is `'side'`, additional objects are emitted as `additional` events
+ * with `(additional, primary)` instead of being written to the stream.
+ *
+ * @function createNodeTransform
+ * @template FromObj - Source object type
+ * @template ToObj - Target object type
+ * @template Ctx - Context object type
+ * @param {ConvertFunction<FromObj, ToObj, Ctx>} converter - The converter to apply
+ * @param {StreamOptions<ToObj, Ctx>} [options] - Streaming options
+ * @returns {Duplex} The transform stream
+ * @example
+ * import { createNodeTransform } from '@doeixd/create-converter/node';
+ *
+ * await pipeline(cursor.stream(), createNodeTransform(userConverter, { concurrency: 4 }), output);
+ */
+export function createNodeTransform<
+  FromObj extends GenericObject,
+  ToObj extends GenericObject,
+  Ctx extends GenericObject = GenericObject
+>(
+  converter: ConvertFunction<FromObj, ToObj, Ctx>,
+  options: StreamOptions<ToObj, Ctx> = {}
+): Duplex {
+  const onAdditional = (additional: ToObj[], primary: ToObj) => {
+    options.onAdditional?.(additional, primary);
+    stream.emit('additional', additional, primary);
+  };
+
+  const stream: Duplex = Duplex.from(async function* (source: AsyncIterable<FromObj>) {
+    yield* convertIterable(converter, source, { ...options, onAdditional });
+  });
+
+  return stream;
+}
@@ -1,18 +1,45 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import {
   createConverter,
+  createSyncConverter,
+  converter,
+  map,
+  objToConverter,
+  pipe,
+  extend,
+  nested,
+  each,
+  transforms,
   ConverterError,
   ConverterErrorType,
+  AggregateConverterError,
+  flattenErrors,
   Many,
   noopLogger,
   defaultMergeStrategy,
   BidirectionalConverter,
+  createBidirectionalConverter,
+  checkRoundTrip,
+  equivalences,
   createPartialValidator,
   GenericObject,
   getPrimary,
   hasAdditional,
-  getAdditional
+  getAdditional,
+  getConversionErrors,
+  createLruCache,
+  createLoader,
+  createSpanInstrumentation,
+  Instrumentation,
+  Loader,
+  ConverterOptions,
+  StandardSchemaV1,
+  convertIterable,
+  createTransformStream
 } from '../src/index'; // Adjust the import path as needed
+import { createNodeTransform } from '../src/node';
 
 
 // Test interfaces
@@ -59,6 +86,10 @@ const sourceFixture: SourceObject = {
   tags: ['tag1', 'tag2', 'tag3']
 };
 
+// Test helpers
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
 describe('Converter Library', () => {
   describe('Basic Conversion', () => {
     it('should convert fields according to field functions', async () => {
@@ -223,6 +254,502 @@ describe('Converter Library', () => {
     });
   });
 
+  describe('Path Mapping', () => {
+    interface Order extends GenericObject {
+      id: string;
+      customer: { name: string; address?: { city: string } };
+      items: { sku: string; qty: number }[];
+    }
+
+    interface Shipment extends GenericObject {
+      orderId: string;
+      location: { city: string; country: string };
+      skus: string[];
+      firstSku: string;
+    }
+
+    const order: Order = {
+      id: 'o-1',
+      customer: { name: 'Ada', address: { city: ' paris ' } },
+      items: [{ sku: 'a', qty: 1 }, { sku: 'b', qty: 2 }],
+    };
+
+    it('should copy values between nested paths', async () => {
+      const toShipment = createConverter<Order, Shipment>((field, obj) => {
+        obj(map('id', 'orderId'));
+        obj(map('customer.address.city', 'location.city'));
+        obj(map('items[*].sku', 'skus'));
+        obj(map('items[0].sku', 'firstSku'));
+      });
+
+      expect(await toShipment(order)).toEqual({
+        orderId: 'o-1',
+        location: { city: ' paris ' },
+        skus: ['a', 'b'],
+        firstSku: 'a',
+      });
+    });
+
+    it('should merge nested target paths with the merge strategy', async () => {
+      const toShipment = createConverter<Order, Shipment>((field, obj) => {
+        obj(map('customer.address.city', 'location.city'));
+      }, { defaults: { location: { city: '', country: 'FR' } } });
+
+      expect(await toShipment(order)).toEqual({ location: { city: ' paris ', country: 'FR' } });
+    });
+
+    it('should apply transform chains and defaults', async () => {
+      const toShipment = createConverter<Order, Shipment>((field, obj) => {
+        obj(map('customer.address.city', 'location.city', {
+          transform: [transforms.trim, transforms.toUpperCase],
+          default: 'unknown',
+        }));
+        obj(map('items[*].qty', 'skus', { transform: async (quantities) => quantities.map(String) }));
+      });
+
+      expect(await toShipment(order)).toMatchObject({ location: { city: 'PARIS' }, skus: ['1', '2'] });
+      expect(await toShipment({ ...order, customer: { name: 'Bo' } })).toMatchObject({ location: { city: 'UNKNOWN' } });
+    });
+
+    it('should keep null source values instead of the default', async () => {
+      const toLocation = createConverter<{ city?: string | null }, { city: string | null }>((field, obj) => {
+        obj(map('city', 'city', { default: 'unknown' }));
+      });
+
+      expect(await toLocation({ city: null })).toEqual({ city: null });
+      expect(await toLocation({})).toEqual({ city: 'unknown' });
+    });
+
+    it('should support map in sync converters and builders', () => {
+      const toShipment = createSyncConverter<Order, Shipment>((field, obj) => {
+        obj(map('items[1].sku', 'firstSku'));
+      });
+      expect(toShipment(order)).toEqual({ firstSku: 'b' });
+
+      const built = converter<Order, Pick<Shipment, 'orderId' | 'location'>>()
+        .map('id', 'orderId')
+        .map('customer.address.city', 'location.city');
+      expectTypeOf(built.build).toBeFunction();
+    });
+
+    it('should check paths against the source and target types', () => {
+      createConverter<Order, Shipment>((field, obj) => {
+        // @ts-expect-error - customer.email is not a source path
+        obj(map('customer.email', 'orderId'));
+        // @ts-expect-error - location.zip is not a target path
+        obj(map('id', 'location.zip'));
+      });
+    });
+
+    it('should reject malformed paths and writes to array indexes', () => {
+      expect(() => map('items[x', 'skus')).toThrow(ConverterError);
+      expect(() => map('id', 'skus[0]')).toThrow(/Array indexes and wildcards can only be read/);
+    });
+  });
+
+  describe('objToConverter', () => {
+    interface Line extends GenericObject {
+      code: string;
+      qty: number;
+    }
+
+    interface Order extends GenericObject {
+      orderId: string;
+      city: string;
+      customer: { name: string };
+      lines: Line[];
+    }
+
+    interface OrderDto extends GenericObject {
+      id: string;
+      status: string;
+      shipping: { city: string; country: string };
+      customer: { displayName: string };
+      lines: { sku: string; quantity: number }[];
+    }
+
+    const order: Order = {
+      orderId: 'o-1',
+      city: 'Paris',
+      customer: { name: 'Ada' },
+      lines: [{ code: 'a', qty: 1 }, { code: 'b', qty: 2 }],
+    };
+
+    const toCustomer = createConverter<Order['customer'], OrderDto['customer']>((field) => {
+      field('displayName', from => from.name.toUpperCase());
+    });
+
+    it('should convert nested specs, item specs and converters', async () => {
+      const toDto = createConverter<Order, OrderDto>(objToConverter({
+        id: from => from.orderId,
+        status: 'pending',
+        shipping: { city: from => from.city, country: 'FR' },
+        customer: toCustomer,
+        lines: [{ sku: line => line.code, quantity: async line => line.qty * 10 }],
+      }));
+
+      expect(await toDto(order)).toEqual({
+        id: 'o-1',
+        status: 'pending',
+        shipping: { city: 'Paris', country: 'FR' },
+        customer: { displayName: 'ADA' },
+        lines: [{ sku: 'a', quantity: 10 }, { sku: 'b', quantity: 20 }],
+      });
+    });
+
+    it('should stay synchronous when every entry is synchronous', () => {
+      const toDto = createSyncConverter<Order, OrderDto>(objToConverter({
+        shipping: { city: from => from.city },
+        lines: [{ sku: line => line.code }],
+      }));
+
+      expect(toDto(order)).toEqual({ shipping: { city: 'Paris' }, lines: [{ sku: 'a' }, { sku: 'b' }] });
+    });
+
+    it('should report the full nested field name of failing entries', async () => {
+      const toDto = createConverter<Order, OrderDto>(objToConverter({
+        shipping: {
+          city: () => {
+            throw new Error('No city');
+          },
+        },
+        lines: [{
+          sku: line => {
+            if (line.code === 'b') throw new Error('Bad line');
+            return line.code;
+          },
+        }],
+      }));
+
+      const { errors } = await toDto.safeConvert(order);
+      expect(errors.map(error => error.fieldName)).toEqual(['shipping.city', 'lines[1].sku']);
+      expect(errors[0].message).toBe("Error converting field 'shipping.city': No city");
+      expect(errors[1].type).toBe(ConverterErrorType.FIELD_CONVERSION);
+    });
+
+    it('should check spec entries against the source and target types', () => {
+      objToConverter<Order, OrderDto>({
+        // @ts-expect-error - number is not assignable to string
+        id: from => from.lines.length,
+      });
+      objToConverter<Order, OrderDto>({
+        // @ts-expect-error - the item spec is checked against the line type
+        lines: [{ sku: line => line.qty }],
+      });
+    });
+  });
+
+  describe('pipe', () => {
+    interface ApiUser extends GenericObject { user_id: string; user_name: string }
+    interface DomainUser extends GenericObject { id: string; name: string }
+    interface ViewUser extends GenericObject { label: string }
+    interface LocaleContext extends GenericObject { locale: string }
+
+    const toDomain = createConverter<ApiUser, DomainUser, LocaleContext>((field, obj, pre, post, add) => {
+      field('id', from => from.user_id);
+      field('name', from => from.user_name);
+      post(() => {
+        add({ id: 'audit', name: 'domain extra' });
+      });
+    });
+
+    const toView = createSyncConverter<DomainUser, ViewUser, LocaleContext>((field) => {
+      field('label', (from, ctx) => `${from.name} (${ctx.locale})`);
+    });
+
+    it('should compose converters and thread the context through each stage', async () => {
+      const toViewUser = pipe(toDomain, toView);
+      expectTypeOf(toViewUser).parameter(0).toEqualTypeOf<ApiUser>();
+
+      const result = await toViewUser({ user_id: '1', user_name: 'Ada' }, { locale: 'en' });
+      expect(result).toEqual({ label: 'Ada (en)' });
+      expect(hasAdditional(result)).toBe(false);
+    });
+
+    it('should accumulate additional objects when requested', async () => {
+      const toViewUser = pipe(toDomain, toView, { additional: 'accumulate' });
+      const result = await toViewUser({ user_id: '1', user_name: 'Ada' }, { locale: 'fr' });
+
+      expect(getPrimary(result)).toEqual({ label: 'Ada (fr)' });
+      expect(getAdditional(result)).toEqual([{ id: 'audit', name: 'domain extra' }]);
+    });
+
+    it('should name the stage that failed', async () => {
+      const failing = createConverter<ViewUser, ViewUser>((field) => {
+        field('label', () => {
+          throw new Error('Label failed');
+        });
+      });
+      const toViewUser = pipe(toDomain, toView, failing);
+
+      const error = await toViewUser({ user_id: '1', user_name: 'Ada' }, { locale: 'en' }).catch(err => err);
+      expect(error).toBeInstanceOf(ConverterError);
+      expect(error.type).toBe(ConverterErrorType.PIPE_STAGE);
+      expect(error.message).toBe("Error in pipe stage 3 of 3: Error converting field 'label': Label failed");
+      expect(error.originalError.fieldName).toBe('label');
+    });
+
+    it('should collect errors from every stage in safeConvert and support convertAll', async () => {
+      const lenient = createConverter<ViewUser, ViewUser>((field) => {
+        field('label', () => {
+          throw new Error('Label failed');
+        });
+      }, { errorHandling: 'warn', defaults: { label: 'fallback' } });
+      const toViewUser = pipe(toDomain, toView, lenient);
+
+      const safe = await toViewUser.safeConvert({ user_id: '1', user_name: 'Ada' }, { locale: 'en' });
+      expect(safe).toMatchObject({ ok: true, value: { label: 'fallback' } });
+      expect(safe.warnings).toHaveLength(1);
+
+      const batch = await toViewUser.convertAll([{ user_id: '1', user_name: 'Ada' }], { context: { locale: 'de' } });
+      expect(batch.succeeded).toBe(1);
+    });
+
+    it('should reject stages whose types do not line up', () => {
+      // @ts-expect-error - toView does not accept an ApiUser
+      pipe(toView, toDomain);
+    });
+  });
+
+  describe('extend', () => {
+    interface BaseUser extends GenericObject {
+      id: string;
+      displayName: string;
+      createdAt: string;
+      nickname?: string;
+    }
+
+    interface AdminUser extends GenericObject {
+      id: string;
+      displayName: string;
+      createdAt: Date;
+      isActive: boolean;
+    }
+
+    const createBase = (postHook = vi.fn()) =>
+      createConverter<SourceObject, BaseUser, TestContext>((field, obj, pre, post) => {
+        field('id', from => from.id);
+        field('displayName', from => from.name);
+        field('createdAt', from => from.createdAt);
+        field('nickname', from => from.name.split(' ')[0]);
+        post(postHook, 'track');
+      }, { defaults: { nickname: '' }, context: { userId: 'base', role: 'user' }, requiredFields: ['id'] });
+
+    it('should inherit fields, hooks and options', async () => {
+      const postHook = vi.fn();
+      const toUser = extend(createBase(postHook), (field) => {
+        field('displayName', (from, ctx) => `${from.name} (${ctx.role})`);
+      });
+
+      expect(await toUser(sourceFixture)).toEqual({
+        id: '123',
+        displayName: 'John Doe (user)',
+        createdAt: '2023-01-15T12:00:00Z',
+        nickname: 'John',
+      });
+      expect(postHook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should override, remove and add fields and hooks with widened types', async () => {
+      const basePost = vi.fn();
+      const adminPost = vi.fn();
+      const base = createBase(basePost);
+      const toAdmin = extend<SourceObject, AdminUser, TestContext>(base, (field, obj, pre, post) => {
+        field('createdAt', from => new Date(from.createdAt));
+        field('isActive', from => from.active);
+        post(adminPost, 'track');
+      }, { omitFields: ['nickname'], context: { userId: 'base', role: 'admin' } });
+
+      const result = getPrimary(await toAdmin(sourceFixture));
+      expect(Object.keys(result)).toEqual(['id', 'displayName', 'createdAt', 'isActive']);
+      expect(result.createdAt).toEqual(new Date('2023-01-15T12:00:00Z'));
+      expect(adminPost).toHaveBeenCalledTimes(1);
+      expect(basePost).not.toHaveBeenCalled();
+      expect(await base(sourceFixture)).toMatchObject({ createdAt: '2023-01-15T12:00:00Z' });
+    });
+
+    it('should remove hooks by name and inherit required fields', async () => {
+      const postHook = vi.fn();
+      const toUser = extend(createBase(postHook), (field) => {
+        field('id', () => undefined as unknown as string);
+      }, { omitHooks: ['track'] });
+
+      await expect(toUser(sourceFixture)).rejects.toThrow(/Missing required fields: id/);
+      expect(postHook).not.toHaveBeenCalled();
+    });
+
+    it('should allow extending an extended converter', async () => {
+      const level1 = extend(createBase(), (field) => {
+        field('displayName', () => 'level 1');
+      });
+      const level2 = extend(level1, (field) => {
+        field('id', () => 'level 2');
+      });
+
+      expect(await level2(sourceFixture)).toMatchObject({ id: 'level 2', displayName: 'level 1' });
+    });
+
+    it('should only extend converters created by createConverter', () => {
+      const toDomain = createConverter<SourceObject, BaseUser>();
+      const piped = pipe(toDomain, createConverter<BaseUser, BaseUser>());
+      expect(() => extend(piped)).toThrow(ConverterError);
+    });
+  });
+
+  describe('nested', () => {
+    interface Address extends GenericObject { street: string; postcode?: string }
+    interface AddressDto extends GenericObject { line: string; postcode: string }
+    interface Customer extends GenericObject { id: string; address: Address; billing?: Address }
+    interface CustomerDto extends GenericObject { id: string; address: AddressDto; billing?: AddressDto }
+
+    const toAddress = createConverter<Address, AddressDto, TestContext>((field, obj, pre, post, add) => {
+      field('line', (from, ctx) => `${from.street} (${ctx.role})`);
+      field('postcode', from => {
+        if (!from.postcode) throw new Error('Postcode is required');
+        return from.postcode;
+      });
+      post((ctx, from) => {
+        add({ line: `geocode ${from.street}`, postcode: '' });
+      });
+    });
+
+    const customer: Customer = { id: 'c-1', address: { street: 'Main St', postcode: '1000' } };
+
+    it('should convert a nested object with the parent context', async () => {
+      const toCustomer = createConverter<Customer, CustomerDto, TestContext>((field) => {
+        field('id', from => from.id);
+        field('address', nested(toAddress, from => from.address));
+        field('billing', nested(toAddress, from => from.billing));
+      }, { context: { userId: 'u', role: 'admin' } });
+
+      const result = await toCustomer(customer);
+      expect(result).toEqual({ id: 'c-1', address: { line: 'Main St (admin)', postcode: '1000' }, billing: undefined });
+      expect(hasAdditional(result)).toBe(false);
+    });
+
+    it('should lift additional objects into the parent result when configured', async () => {
+      const toCustomer = createConverter<Customer, CustomerDto, TestContext>((field) => {
+        field('address', nested(toAddress, from => from.address, { additional: 'lift' }));
+      });
+
+      const result = await toCustomer(customer, { role: 'user' });
+      expect(getAdditional(result)).toEqual([{ line: 'geocode Main St', postcode: '' }]);
+    });
+
+    it('should prefix child error paths with the parent field', async () => {
+      const toCustomer = createConverter<Customer, CustomerDto, TestContext>((field) => {
+        field('address', nested(toAddress, from => from.address));
+      });
+
+      const error = await toCustomer({ id: 'c-2', address: { street: 'Side St' } }).catch(err => err);
+      expect(error).toBeInstanceOf(ConverterError);
+      expect(error.fieldName).toBe('address.postcode');
+      expect(error.type).toBe(ConverterErrorType.FIELD_CONVERSION);
+      expect(error.message).toBe("Error converting field 'address.postcode': Postcode is required");
+      expect(error.originalError.message).toBe('Postcode is required');
+    });
+
+    it('should build full paths across several levels', async () => {
+      interface Order extends GenericObject { customer: Customer }
+      interface OrderDto extends GenericObject { customer: CustomerDto }
+      const toCustomer = createConverter<Customer, CustomerDto, TestContext>((field) => {
+        field('address', nested(toAddress, from => from.address));
+      });
+      const toOrder = createConverter<Order, OrderDto, TestContext>((field) => {
+        field('customer', nested(toCustomer, from => from.customer));
+      });
+
+      const { errors } = await toOrder.safeConvert({ customer: { id: 'c-3', address: { street: 'Side St' } } });
+      expect(errors.map(error => error.fieldName)).toEqual(['customer.address.postcode']);
+    });
+  });
+
+  describe('each', () => {
+    interface Item extends GenericObject { sku: string; price: number | string }
+    interface ItemDto extends GenericObject { sku: string; price: number }
+    interface Cart extends GenericObject { items: Item[]; saved?: Item[] }
+    interface CartDto extends GenericObject { items: ItemDto[]; itemsBySku: Record<string, ItemDto>; saved?: ItemDto[] }
+
+    const toItem = createConverter<Item, ItemDto>((field) => {
+      field('sku', from => from.sku);
+      field('price', from => {
+        if (typeof from.price !== 'number') throw new Error('Price must be a number');
+        return from.price;
+      });
+    });
+
+    const cart: Cart = {
+      items: [{ sku: 'a', price: 1 }, { sku: 'b', price: 'free' }, { sku: 'c', price: 3 }],
+    };
+
+    it('should convert every element in order', async () => {
+      const toCart = createConverter<Cart, CartDto>((field) => {
+        field('items', each(toItem, from => from.items, { concurrency: 2 }));
+        field('saved', each(toItem, from => from.saved));
+      });
+
+      const result = await toCart({ items: [{ sku: 'a', price: 1 }, { sku: 'c', price: 3 }] });
+      expect(result).toEqual({ items: [{ sku: 'a', price: 1 }, { sku: 'c', price: 3 }], saved: undefined });
+    });
+
+    it('should report element errors with their index', async () => {
+      const toCart = createConverter<Cart, CartDto>((field) => {
+        field('items', each(toItem, from => from.items));
+      });
+
+      const error = await toCart(cart).catch(err => err);
+      expect(error.fieldName).toBe('items[1].price');
+      expect(error.message).toBe("Error converting field 'items[1].price': Price must be a number");
+    });
+
+    it('should drop failing elements or keep a placeholder', async () => {
+      const toCart = createConverter<Cart, CartDto>((field) => {
+        field('items', each(toItem, from => from.items, { onError: 'drop' }));
+      });
+      const withPlaceholder = createConverter<Cart, CartDto>((field) => {
+        field('items', each(toItem, from => from.items, {
+          onError: 'placeholder',
+          placeholder: (error, item) => ({ sku: item.sku, price: 0 }),
+        }));
+      });
+
+      expect(getPrimary(await toCart(cart)).items.map(item => item.sku)).toEqual(['a', 'c']);
+      expect(getPrimary(await withPlaceholder(cart)).items).toEqual([
+        { sku: 'a', price: 1 },
+        { sku: 'b', price: 0 },
+        { sku: 'c', price: 3 },
+      ]);
+    });
+
+    it('should key the result by a converted field', async () => {
+      const toCart = createConverter<Cart, CartDto>((field) => {
+        field('itemsBySku', each(toItem, from => from.items, { key: 'sku', onError: 'drop' }));
+      });
+
+      expect(await toCart(cart)).toEqual({
+        itemsBySku: { a: { sku: 'a', price: 1 }, c: { sku: 'c', price: 3 } },
+      });
+    });
+
+    it('should reject placeholders for keyed results', () => {
+      expect(() =>
+        // @ts-expect-error placeholders have no key
+        each(toItem, (from: Cart) => from.items, { key: 'sku', onError: 'placeholder', placeholder: { sku: '', price: 0 } })
+      ).toThrow(expect.objectContaining({ type: ConverterErrorType.INVALID_FIELD }));
+    });
+
+    it('should work in sync converters when the element converter is sync', () => {
+      const toSyncItem = createSyncConverter<Item, ItemDto>((field) => {
+        field('sku', from => from.sku.toUpperCase());
+      });
+      const toCart = createSyncConverter<Cart, CartDto>((field) => {
+        field('items', each(toSyncItem, from => from.items));
+      });
+
+      expect(toCart(cart)).toEqual({ items: [{ sku: 'A' }, { sku: 'B' }, { sku: 'C' }] });
+    });
+  });
+
   describe('Hooks', () => {
     it('should execute pre-hooks before conversion', async () => {
       const preHookSpy = vi.fn();
@@ -316,6 +843,110 @@ describe('Converter Library', () => {
     });
   });
 
+  describe('Field Dependencies', () => {
+    interface Person extends GenericObject {
+      firstName: string;
+      lastName: string;
+      fullName: string;
+      greeting: string;
+    }
+
+    it('should order fields by their dependencies', async () => {
+      const converter = createConverter<SourceObject, Person>((field) => {
+        field('greeting', (from, ctx, to) => `Hello, ${to.fullName}`, { dependsOn: ['fullName'] });
+        field('fullName', (from, ctx, to) => `${to.firstName} ${to.lastName}`, { dependsOn: ['firstName', 'lastName'] });
+        field('firstName', from => from.name.split(' ')[0]);
+        field('lastName', from => from.name.split(' ')[1]);
+      });
+
+      expect(await converter(sourceFixture)).toEqual({
+        firstName: 'John',
+        lastName: 'Doe',
+        fullName: 'John Doe',
+        greeting: 'Hello, John Doe'
+      });
+    });
+
+    it('should keep registration order for fields without dependencies', async () => {
+      const calls: string[] = [];
+      const converter = createConverter<SourceObject, Person>((field) => {
+        field('lastName', () => { calls.push('lastName'); return 'Doe'; });
+        field('fullName', () => { calls.push('fullName'); return ''; }, { dependsOn: ['firstName'] });
+        field('greeting', () => { calls.push('greeting'); return ''; });
+        field('firstName', () => { calls.push('firstName'); return 'John'; });
+      });
+
+      await converter(sourceFixture);
+
+      expect(calls).toEqual(['lastName', 'greeting', 'firstName', 'fullName']);
+    });
+
+    it('should detect cycles at definition time', () => {
+      const define = () =>
+        createConverter<SourceObject, Person>((field) => {
+          field('firstName', () => '', { dependsOn: ['fullName'] });
+          field('lastName', () => '');
+          field('fullName', () => '', { dependsOn: ['greeting'] });
+          field('greeting', () => '', { dependsOn: ['firstName'] });
+        });
+
+      expect(define).toThrow(ConverterError);
+      expect(define).toThrow('Circular field dependency: firstName -> fullName -> greeting -> firstName');
+    });
+
+    it('should detect fields that depend on themselves', () => {
+      expect(() =>
+        createConverter<SourceObject, Person>((field) => {
+          field('fullName', () => '', { dependsOn: ['fullName'] });
+        })
+      ).toThrow('Circular field dependency: fullName -> fullName');
+    });
+
+    it('should run independent fields concurrently with parallelFields', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const lookup = async <T>(value: T) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(10);
+        inFlight--;
+        return value;
+      };
+
+      const converter = createConverter<SourceObject, Person>((field) => {
+        field('firstName', () => lookup('John'));
+        field('lastName', () => lookup('Doe'));
+        field('fullName', (from, ctx, to) => lookup(`${to.firstName} ${to.lastName}`), {
+          dependsOn: ['firstName', 'lastName']
+        });
+        field('greeting', () => lookup('Hello'));
+      }, {
+        parallelFields: true
+      });
+
+      const result = await converter(sourceFixture);
+
+      expect(result).toEqual({ firstName: 'John', lastName: 'Doe', fullName: 'John Doe', greeting: 'Hello' });
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should report the first failing field of a concurrent wave', async () => {
+      const converter = createConverter<SourceObject, Person>((field) => {
+        field('firstName', async () => {
+          await delay(10);
+          throw new Error('First name lookup failed');
+        });
+        field('lastName', () => {
+          throw new Error('Last name lookup failed');
+        });
+      }, {
+        parallelFields: true
+      });
+
+      await expect(converter(sourceFixture)).rejects.toThrow(/First name lookup failed/);
+    });
+  });
+
   describe('Context', () => {
     it('should pass context to field functions', async () => {
       const converter = createConverter<SourceObject, TargetObject, TestContext>((field) => {
@@ -461,10 +1092,11 @@ describe('Converter Library', () => {
       
       const primary = getPrimary(result);
       
-      expect(mockLogger.error).toHaveBeenCalledWith(
+      expect(mockLogger.warn).toHaveBeenCalledWith(
         expect.stringContaining('Age calculation failed'),
-        expect.any(Object)
+        expect.objectContaining({ field: 'age', policy: 'warn' })
       );
+      expect(mockLogger.error).not.toHaveBeenCalled();
       
       // Conversion should continue with default/undefined value for the errored field
       expect(primary.age).toBeUndefined();
@@ -498,15 +1130,98 @@ describe('Converter Library', () => {
       
       const primary = getPrimary(result);
       
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining('Age calculation failed'),
-        expect.any(Object)
-      );
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(mockLogger.warn).not.toHaveBeenCalled();
       
       // Conversion should continue with default/undefined value for the errored field
       expect(primary.age).toBeUndefined();
     });
 
+    describe.each(['field', 'object', 'pre-hook', 'post-hook', 'validation'] as const)('%s errors', (stage) => {
+      const createFailing = (errorHandling: 'throw' | 'warn' | 'ignore' | 'collect') => {
+        const logger = createLogger();
+        const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+          field('id', from => from.id);
+          if (stage === 'field') field('age', () => { throw new Error('Stage failed'); });
+          if (stage === 'object') obj(() => { throw new Error('Stage failed'); });
+          if (stage === 'pre-hook') pre(() => { throw new Error('Stage failed'); });
+          if (stage === 'post-hook') post(() => { throw new Error('Stage failed'); });
+        }, {
+          errorHandling,
+          logger,
+          requiredFields: stage === 'validation' ? ['emailAddress'] : [],
+        });
+        return { converter, logger };
+      };
+
+      it('should throw with throw error handling', async () => {
+        const { converter } = createFailing('throw');
+        await expect(converter(sourceFixture)).rejects.toThrow(ConverterError);
+      });
+
+      it('should log through logger.warn with warn error handling', async () => {
+        const { converter, logger } = createFailing('warn');
+        const result = await converter(sourceFixture);
+
+        expect(result).toEqual({ id: '123' });
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+        expect(logger.error).not.toHaveBeenCalledWith(expect.stringMatching(/Stage failed|Missing/), expect.anything());
+        expect(getConversionErrors(result)).toEqual([]);
+      });
+
+      it('should stay silent with ignore error handling', async () => {
+        const { converter, logger } = createFailing('ignore');
+        const result = await converter(sourceFixture);
+
+        expect(result).toEqual({ id: '123' });
+        expect(logger.warn).not.toHaveBeenCalled();
+        expect(logger.error).not.toHaveBeenCalledWith(expect.stringMatching(/Stage failed|Missing/), expect.anything());
+        expect(getConversionErrors(result)).toEqual([]);
+      });
+
+      it('should attach the errors to the result with collect error handling', async () => {
+        const { converter, logger } = createFailing('collect');
+        const result = await converter(sourceFixture);
+
+        expect(result).toEqual({ id: '123' });
+        expect(Object.keys(result)).toEqual(['id']);
+        expect(logger.warn).not.toHaveBeenCalled();
+        const errors = getConversionErrors(result);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(ConverterError);
+        expect(errors[0].policy).toBe('collect');
+      });
+    });
+
+    it('should attach collected errors to a Many and its primary object', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        });
+        post(() => {
+          add({ id: 'extra' });
+        });
+      }, { errorHandling: 'collect' });
+
+      const result = await converter(sourceFixture);
+
+      expect(result).toBeInstanceOf(Many);
+      expect(getConversionErrors(result).map(e => e.path)).toEqual([['age']]);
+      expect(getConversionErrors(getPrimary(result))).toBe(getConversionErrors(result));
+    });
+
+    it('should collect errors skipped by a registration policy', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: 'skip' });
+      }, { errorHandling: 'collect' });
+
+      const [error] = getConversionErrors(await converter(sourceFixture));
+      expect(error.policy).toBe('skip');
+    });
+
     it('should handle errors in pre-hooks', async () => {
       const converter = createConverter<SourceObject, TargetObject>((field, obj, pre) => {
         pre(() => {
@@ -589,44 +1304,1392 @@ describe('Converter Library', () => {
     });
   });
 
-  describe('Required Fields', () => {
-    it('should validate required fields', async () => {
-      const converter = createConverter<Partial<SourceObject>, TargetObject>((field) => {
-        field('id', from => from.id || '');
-        field('displayName', from => from.name || '');
-        field('emailAddress', from => from.email || '');
-        field('created', from => from.createdAt ? new Date(from.createdAt) : new Date());
-        field('age', from => from.age || 0);
-        field('isActive', from => from.active || false);
-        field('nestedProperty', from => from.nested?.property || '');
-        field('tagList', from => from.tags?.join(', ') || '');
-      }, {
-        requiredFields: ['id', 'emailAddress']
+  describe('safeConvert', () => {
+    it('should return the value with no errors when conversion succeeds', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
       });
 
-      // Missing required fields
-      await expect(converter({})).rejects.toThrow(ConverterError);
-      await expect(converter({})).rejects.toThrow(/Missing required fields/);
-      
-      // With required fields
-      const result = await converter({
-        id: '456',
-        email: 'test@example.com'
+      expect(await converter.safeConvert(sourceFixture)).toEqual({
+        ok: true,
+        value: { id: '123' },
+        errors: [],
+        warnings: []
       });
-      
-      const primary = getPrimary(result);
-      expect(primary.id).toBe('456');
-      expect(primary.emailAddress).toBe('test@example.com');
     });
 
-    it('should mark fields as required in field definition', async () => {
-      const mockLogger = {
-        debug: vi.fn(),
-        info: vi.fn(),
-        warn: vi.fn(),
-        error: vi.fn()
-      };
-      
+    it('should run the full pipeline and collect every error', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        pre(function loadUser() {
+          throw new Error('Pre-hook error');
+        });
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        });
+        field('emailAddress', () => {
+          throw new Error('Email lookup failed');
+        });
+        obj(() => {
+          throw new Error('Object function error');
+        });
+        post(function audit() {
+          throw new Error('Post-hook error');
+        });
+        field('displayName', from => from.name);
+      }, {
+        requiredFields: ['emailAddress']
+      });
+
+      const result = await converter.safeConvert(sourceFixture);
+
+      expect(result.ok).toBe(false);
+      expect(result.value).toEqual({ id: '123', displayName: 'John Doe' });
+      expect(result.warnings).toEqual([]);
+      expect(result.errors.map(e => e.type)).toEqual([
+        ConverterErrorType.PRE_HOOK,
+        ConverterErrorType.FIELD_CONVERSION,
+        ConverterErrorType.FIELD_CONVERSION,
+        ConverterErrorType.OBJECT_CONVERSION,
+        ConverterErrorType.POST_HOOK,
+        ConverterErrorType.VALIDATION
+      ]);
+      expect(result.errors.every(e => e instanceof ConverterError)).toBe(true);
+      expect(result.errors[0].message).toContain("'loadUser'");
+      expect(result.errors[1].fieldName).toBe('age');
+      expect(result.errors[2].fieldName).toBe('emailAddress');
+      expect(result.errors[4].message).toContain("'audit'");
+    });
+
+    it('should report non-throwing error handling as warnings', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        });
+      }, {
+        errorHandling: 'warn'
+      });
+
+      const result = await converter.safeConvert(sourceFixture);
+
+      expect(result.ok).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].fieldName).toBe('age');
+    });
+
+    it('should collect invalid source errors', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+      }, {
+        defaults: { id: 'none' }
+      });
+
+      // @ts-ignore - testing runtime type checking
+      const result = await converter.safeConvert(null);
+
+      expect(result.ok).toBe(false);
+      expect(result.value).toEqual({ id: 'none' });
+      expect(result.errors[0].type).toBe(ConverterErrorType.INVALID_SOURCE);
+    });
+
+    it('should keep additional objects in the value', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        });
+        post((ctx, from, to, add) => {
+          add({ id: 'extra' });
+        });
+      });
+
+      const result = await converter.safeConvert(sourceFixture);
+
+      expect(result.ok).toBe(false);
+      expect(result.value).toBeInstanceOf(Many);
+      expect(getAdditional(result.value)).toEqual([{ id: 'extra' }]);
+    });
+  });
+
+  describe('Standard Schema', () => {
+    interface ApiUser extends GenericObject {
+      first: string;
+      age: number;
+      address: { city: string };
+    }
+
+    // What the API sends before the input schema parses it
+    interface RawApiUser extends GenericObject {
+      first: string;
+      age: string | number;
+      address: { city: string };
+    }
+
+    interface User extends GenericObject {
+      name: string;
+      age: number;
+    }
+
+    // Minimal Standard Schema implementation so the tests do not depend on a validation library
+    const schema = <T, I = unknown>(
+      check: (value: any) => StandardSchemaV1.Issue[],
+      parse: (value: any) => T = value => value,
+      async = false
+    ): StandardSchemaV1<I, T> => ({
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const issues = check(value);
+          const result: StandardSchemaV1.Result<T> = issues.length ? { issues } : { value: parse(value) };
+          return async ? Promise.resolve(result) : result;
+        }
+      }
+    });
+
+    const apiUserSchema = schema<ApiUser, RawApiUser>(
+      value => [
+        ...(typeof value?.first === 'string' ? [] : [{ message: 'Expected string', path: ['first'] }]),
+        ...(typeof value?.address?.city === 'string'
+          ? []
+          : [{ message: 'Required', path: [{ key: 'address' }, { key: 'city' }] }])
+      ],
+      value => ({ ...value, age: Number(value.age) })
+    );
+
+    const userSchema = schema<User>(
+      value => (value.age >= 18 ? [] : [{ message: 'Must be an adult', path: ['age'] }]),
+      value => ({ ...value, name: value.name.trim() })
+    );
+
+    it('should validate and parse the source object', async () => {
+      const converter = createConverter((field) => {
+        field('name', from => `${from.first} `);
+        field('age', from => from.age);
+      }, {
+        inputSchema: apiUserSchema,
+        outputSchema: userSchema
+      });
+
+      expect(await converter({ first: 'John', age: '30', address: { city: 'Oslo' } })).toEqual({
+        name: 'John',
+        age: 30
+      });
+    });
+
+    it('should infer the converter types from the schemas', () => {
+      const converter = createConverter((field) => {
+        field('name', from => {
+          expectTypeOf(from).toEqualTypeOf<ApiUser>();
+          return from.first;
+        });
+        field('age', from => from.age);
+      }, {
+        inputSchema: apiUserSchema,
+        outputSchema: userSchema
+      });
+
+      expectTypeOf(converter).parameter(0).toEqualTypeOf<RawApiUser>();
+      expectTypeOf(converter.safeConvert).parameter(0).toEqualTypeOf<RawApiUser>();
+      expectTypeOf(converter).returns.resolves.toEqualTypeOf<User | Many<User>>();
+
+      const syncConverter = createSyncConverter((field) => {
+        field('name', from => {
+          expectTypeOf(from).toEqualTypeOf<ApiUser>();
+          return from.first;
+        });
+      }, { inputSchema: apiUserSchema });
+      expectTypeOf(syncConverter).parameter(0).toEqualTypeOf<RawApiUser>();
+    });
+
+    it('should raise INVALID_SOURCE errors with issue paths for invalid input', async () => {
+      const converter = createConverter<ApiUser, User>((field) => {
+        field('name', from => from.first);
+      }, {
+        inputSchema: apiUserSchema
+      });
+
+      const result = await converter.safeConvert({ first: 1, address: {} } as unknown as ApiUser);
+
+      expect(result.ok).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(ConverterErrorType.INVALID_SOURCE);
+      expect(result.errors[0].message).toBe('Invalid source object: first: Expected string; address.city: Required');
+      expect(result.errors[0].issues).toHaveLength(2);
+      await expect(converter({} as ApiUser)).rejects.toThrow(ConverterError);
+    });
+
+    it('should raise VALIDATION errors for invalid output', async () => {
+      const converter = createConverter<ApiUser, User>((field) => {
+        field('name', from => from.first);
+        field('age', from => from.age);
+      }, {
+        outputSchema: userSchema
+      });
+
+      const result = await converter.safeConvert({ first: 'Jane', age: 12, address: { city: 'Oslo' } });
+
+      expect(result.errors.map(e => [e.type, e.message])).toEqual([
+        [ConverterErrorType.VALIDATION, 'Invalid converted object: age: Must be an adult']
+      ]);
+      expect(result.value).toEqual({ name: 'Jane', age: 12 });
+    });
+
+    it('should support async schemas in async converters only', async () => {
+      const asyncSchema = schema<User>(() => [], value => value, true);
+      const define = <C>(create: (fn: any, options: any) => C) =>
+        create((field: any) => {
+          field('name', (from: ApiUser) => from.first);
+        }, { outputSchema: asyncSchema });
+
+      const asyncConverter = define(createConverter);
+      const syncConverter = define(createSyncConverter);
+
+      expect(await asyncConverter({ first: 'John' })).toEqual({ name: 'John' });
+      expect(() => syncConverter({ first: 'John' })).toThrow(/output schema/);
+    });
+  });
+
+  describe('Error Paths', () => {
+    interface Line extends GenericObject { price: number | string }
+    interface LineDto extends GenericObject { price: number }
+    interface Invoice extends GenericObject { id: string; lines: Line[] }
+    interface InvoiceDto extends GenericObject { id: string; total: number; lines: LineDto[] }
+
+    const toLine = createConverter<Line, LineDto>((field) => {
+      field('price', from => {
+        if (typeof from.price !== 'number') throw new Error('Price must be a number');
+        return from.price;
+      });
+    });
+
+    it('should expose a structured path and the standard cause', async () => {
+      const toInvoice = createConverter<Invoice, InvoiceDto>((field) => {
+        field('lines', each(toLine, from => from.lines));
+      });
+
+      const error = await toInvoice({ id: 'i-1', lines: [{ price: 1 }, { price: 'x' }] }).catch(err => err);
+      expect(error.path).toEqual(['lines', 1, 'price']);
+      expect(error.fieldName).toBe('lines[1].price');
+      expect(error.cause).toBeInstanceOf(Error);
+      expect((error.cause as Error).message).toBe('Price must be a number');
+      expect(error.originalError).toBe(error.cause);
+    });
+
+    it('should default the path to the field name', () => {
+      expect(new ConverterError('Failed', ConverterErrorType.FIELD_CONVERSION, { fieldName: 'id' }).path).toEqual(['id']);
+      expect(new ConverterError('Failed', ConverterErrorType.VALIDATION).path).toEqual([]);
+      expect(new ConverterError('Failed', ConverterErrorType.FIELD_CONVERSION, { path: ['a', 0] }).fieldName).toBe('a[0]');
+    });
+
+    it('should throw an AggregateConverterError when several parallel fields fail', async () => {
+      const toInvoice = createConverter<Invoice, InvoiceDto>((field) => {
+        field('id', () => {
+          throw new Error('No id');
+        });
+        field('total', () => {
+          throw new Error('No total');
+        });
+      }, { parallelFields: true });
+
+      const error = await toInvoice({ id: 'i-1', lines: [] }).catch(err => err);
+      expect(error).toBeInstanceOf(AggregateConverterError);
+      expect(error).toBeInstanceOf(ConverterError);
+      expect(error.type).toBe(ConverterErrorType.AGGREGATE);
+      expect(error.errors.map((e: ConverterError) => e.path)).toEqual([['id'], ['total']]);
+    });
+
+    it('should flatten errors into path, type and message records', async () => {
+      const toInvoice = createConverter<Invoice, InvoiceDto>((field) => {
+        field('id', () => {
+          throw new Error('No id');
+        });
+        field('lines', each(toLine, from => from.lines));
+      });
+      const { errors } = await toInvoice.safeConvert({ id: 'i-1', lines: [{ price: 'x' }] });
+      const aggregate = new AggregateConverterError(errors);
+
+      expect(flattenErrors(aggregate)).toEqual([
+        { path: ['id'], type: ConverterErrorType.FIELD_CONVERSION, message: 'No id' },
+        { path: ['lines', 0, 'price'], type: ConverterErrorType.FIELD_CONVERSION, message: 'Price must be a number' },
+      ]);
+      expect(aggregate.message).toMatch(/^2 conversion errors: /);
+    });
+
+    it('should flatten schema issues with their paths', () => {
+      const error = new ConverterError('Invalid', ConverterErrorType.VALIDATION, {
+        issues: [{ message: 'Required', path: ['address', { key: 'city' }] }],
+      });
+
+      expect(flattenErrors(error)).toEqual([
+        { path: ['address', 'city'], type: ConverterErrorType.VALIDATION, message: 'Required' },
+      ]);
+    });
+  });
+
+  describe('Error Policies', () => {
+    it('should skip a failing field when its policy is skip', async () => {
+      const logger = createLogger();
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: 'skip' });
+      }, { logger });
+
+      expect(await converter(sourceFixture)).toEqual({ id: '123' });
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Age calculation failed'),
+        expect.objectContaining({ field: 'age', policy: 'skip' })
+      );
+      expect(logger.error).not.toHaveBeenCalledWith(expect.stringContaining('Age'), expect.anything());
+    });
+
+    it('should substitute a fallback value or compute one from the error', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: { fallback: 0 } });
+        field('displayName', () => {
+          throw new Error('No name');
+        }, { onError: async (error) => `unknown (${error.path.join('.')})` });
+      });
+
+      expect(await converter(sourceFixture)).toEqual({ age: 0, displayName: 'unknown (displayName)' });
+    });
+
+    it('should throw for a throw policy even when the converter only warns', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('age', () => 30);
+        field('id', () => {
+          throw new Error('No id');
+        }, { onError: 'throw' });
+      }, { errorHandling: 'warn' });
+
+      await expect(converter(sourceFixture)).rejects.toMatchObject({
+        path: ['id'],
+        policy: 'throw',
+      });
+    });
+
+    it('should apply policies to object functions and hooks', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        pre(function loadUser() {
+          throw new Error('Pre-hook error');
+        }, undefined, { onError: 'skip' });
+        field('id', from => from.id);
+        obj(() => {
+          throw new Error('Object function error');
+        }, true, { onError: { fallback: { isActive: false } } });
+        post(function audit() {
+          throw new Error('Post-hook error');
+        }, undefined, { onError: 'throw' });
+      }, { errorHandling: 'ignore' });
+
+      await expect(converter(sourceFixture)).rejects.toMatchObject({
+        type: ConverterErrorType.POST_HOOK,
+        policy: 'throw',
+      });
+    });
+
+    it('should report the applied policy in safeConvert', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre) => {
+        pre(function loadUser() {
+          throw new Error('Pre-hook error');
+        }, undefined, { onError: 'skip' });
+        field('id', () => {
+          throw new Error('No id');
+        });
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: { fallback: 0 } });
+        obj(() => {
+          throw new Error('Object function error');
+        }, true, { onError: () => ({ isActive: false }) });
+      });
+
+      const result = await converter.safeConvert(sourceFixture);
+
+      expect(result.value).toEqual({ age: 0, isActive: false });
+      expect(result.errors.map(e => [e.type, e.policy])).toEqual([
+        [ConverterErrorType.FIELD_CONVERSION, 'throw'],
+      ]);
+      expect(result.warnings.map(e => [e.type, e.policy])).toEqual([
+        [ConverterErrorType.PRE_HOOK, 'skip'],
+        [ConverterErrorType.FIELD_CONVERSION, 'fallback'],
+        [ConverterErrorType.OBJECT_CONVERSION, 'fallback'],
+      ]);
+    });
+
+    it('should only aggregate parallel failures whose policy throws', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', () => {
+          throw new Error('No id');
+        });
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: { fallback: 0 } });
+      }, { parallelFields: true });
+
+      const error = await converter(sourceFixture).catch(err => err);
+      expect(error).not.toBeInstanceOf(AggregateConverterError);
+      expect(error.path).toEqual(['id']);
+    });
+
+    it('should fall back to errorHandling when a fallback function fails', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, {
+          onError: () => {
+            throw new Error('No fallback');
+          },
+        });
+      });
+
+      await expect(converter(sourceFixture)).rejects.toThrow("Error in fallback for field 'age': No fallback");
+    });
+  });
+
+  describe('Timeouts and Retries', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should fail a field that does not settle within its timeout', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('displayName', () => new Promise<string>(() => {}), { timeout: 100 });
+      });
+
+      const result = converter(sourceFixture).catch(err => err);
+      await vi.advanceTimersByTimeAsync(100);
+      const error = await result;
+
+      expect(error).toBeInstanceOf(ConverterError);
+      expect(error.type).toBe(ConverterErrorType.TIMEOUT);
+      expect(error.path).toEqual(['displayName']);
+      expect(error.message).toBe("Timed out after 100ms in field 'displayName'");
+    });
+
+    it('should report timeouts of object functions and hooks with the timeout type', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        pre(function slowPre() {
+          return new Promise<void>(() => {});
+        }, undefined, { timeout: 10 });
+        obj(() => new Promise<Partial<TargetObject>>(() => {}), true, { timeout: 10 });
+        post(function slowPost() {
+          return new Promise<void>(() => {});
+        }, undefined, { timeout: 10 });
+      });
+
+      const result = converter.safeConvert(sourceFixture);
+      await vi.advanceTimersByTimeAsync(30);
+      const { errors } = await result;
+
+      expect(errors.map(e => [e.type, e.message])).toEqual([
+        [ConverterErrorType.TIMEOUT, "Timed out after 10ms in pre-hook 'slowPre'"],
+        [ConverterErrorType.TIMEOUT, 'Timed out after 10ms in object function'],
+        [ConverterErrorType.TIMEOUT, "Timed out after 10ms in post-hook 'slowPost'"],
+      ]);
+    });
+
+    it('should retry with backoff and log each attempt', async () => {
+      const logger = createLogger();
+      let calls = 0;
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('displayName', async () => {
+          calls++;
+          if (calls < 3) throw new Error('Service unavailable');
+          return 'Ada';
+        }, { retry: { retries: 3, backoff: (attempt) => attempt * 100 } });
+      }, { logger });
+
+      const result = converter(sourceFixture);
+      await vi.advanceTimersByTimeAsync(99);
+      expect(calls).toBe(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(calls).toBe(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await result).toEqual({ displayName: 'Ada' });
+      expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+        "Retrying field 'displayName' (attempt 2 of 4)",
+        "Retrying field 'displayName' (attempt 3 of 4)",
+      ]);
+    });
+
+    it('should retry an attempt that timed out', async () => {
+      let calls = 0;
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('displayName', () => (++calls === 1 ? new Promise<string>(() => {}) : Promise.resolve('Ada')), {
+          timeout: 50,
+          retry: 1,
+        });
+      });
+
+      const result = converter(sourceFixture);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(await result).toEqual({ displayName: 'Ada' });
+      expect(calls).toBe(2);
+    });
+
+    it('should only retry errors accepted by retryIf', async () => {
+      const fn = vi.fn(async () => {
+        throw new TypeError('Bad input');
+      });
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('displayName', fn, { retry: { retries: 2, retryIf: (error) => !(error instanceof TypeError) } });
+      });
+
+      await expect(converter(sourceFixture)).rejects.toThrow("Error converting field 'displayName': Bad input");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the last retry', async () => {
+      const fn = vi.fn(() => {
+        throw new Error('Service unavailable');
+      });
+      const converter = createSyncConverter<SourceObject, TargetObject>((field) => {
+        field('displayName', fn, { retry: 2 });
+      });
+
+      expect(() => converter(sourceFixture)).toThrow(/Service unavailable/);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should reject with a cancellation error while a field is pending', async () => {
+      const controller = new AbortController();
+      const later = vi.fn(() => 'never');
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', () => new Promise<string>(() => {}));
+        field('displayName', later);
+      });
+
+      const result = converter(sourceFixture, { signal: controller.signal });
+      controller.abort(new Error('Client went away'));
+      const error = await result.catch(err => err);
+
+      expect(error).toBeInstanceOf(ConverterError);
+      expect(error.type).toBe(ConverterErrorType.CANCELLED);
+      expect((error.cause as Error).message).toBe('Client went away');
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('should not run anything when the signal is already aborted', async () => {
+      const hook = vi.fn();
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre) => {
+        pre(hook);
+        field('id', from => from.id);
+      });
+
+      await expect(converter(sourceFixture, { signal: AbortSignal.abort() })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+      expect(hook).not.toHaveBeenCalled();
+    });
+
+    it('should expose the signal to every registered function through the context', async () => {
+      const controller = new AbortController();
+      const seen: unknown[] = [];
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        pre((ctx) => {
+          seen.push(ctx.signal);
+        });
+        field('id', (from, ctx) => {
+          seen.push(ctx.signal);
+          return from.id;
+        });
+        obj((from, ctx) => {
+          seen.push(ctx.signal);
+        });
+        post((ctx) => {
+          seen.push(ctx.signal);
+        });
+      });
+
+      await converter(sourceFixture, { signal: controller.signal });
+      expect(seen).toEqual([controller.signal, controller.signal, controller.signal, controller.signal]);
+    });
+
+    it('should stop the next step when a function aborts the signal', async () => {
+      const controller = new AbortController();
+      const post = vi.fn();
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, postHook) => {
+        field('id', (from) => {
+          controller.abort();
+          return from.id;
+        });
+        postHook(post);
+      });
+
+      await expect(converter(sourceFixture, { signal: controller.signal })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should not let error policies or safeConvert swallow the cancellation', async () => {
+      const controller = new AbortController();
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', () => new Promise<string>(() => {}), { onError: 'skip' });
+      }, { errorHandling: 'ignore' });
+
+      const result = converter.safeConvert(sourceFixture, { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ type: ConverterErrorType.CANCELLED });
+    });
+
+    it('should pass the signal on to nested converters', async () => {
+      const controller = new AbortController();
+      const toChild = createConverter<{ name: string }, { name: string }>((field) => {
+        field('name', (from, ctx) => {
+          controller.abort();
+          return ctx.signal === controller.signal ? from.name : 'unexpected';
+        });
+      });
+      const converter = createConverter<{ child: { name: string } }, { child: { name: string }; after: string }>((field) => {
+        field('child', nested(toChild, from => from.child));
+        field('after', () => 'never');
+      });
+
+      await expect(converter({ child: { name: 'Ada' } }, { signal: controller.signal })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+    });
+
+    it('should stop retrying once the signal aborts', async () => {
+      vi.useFakeTimers();
+      try {
+        const controller = new AbortController();
+        const attempt = vi.fn(async () => {
+          throw new Error('Service unavailable');
+        });
+        const converter = createConverter<SourceObject, TargetObject>((field) => {
+          field('id', attempt, { retry: { retries: 5, backoff: 50 } });
+        }, { logger: noopLogger });
+
+        const result = converter(sourceFixture, { signal: controller.signal });
+        const settled = expect(result).rejects.toMatchObject({ type: ConverterErrorType.CANCELLED });
+        await vi.advanceTimersByTimeAsync(20);
+        controller.abort();
+        await settled;
+        const callsAtAbort = attempt.mock.calls.length;
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(callsAtAbort).toBe(1);
+        expect(attempt).toHaveBeenCalledTimes(callsAtAbort);
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should clear the timeout of an abandoned step', async () => {
+      vi.useFakeTimers();
+      try {
+        const controller = new AbortController();
+        const converter = createConverter<SourceObject, TargetObject>((field) => {
+          field('id', () => new Promise<string>(() => {}), { timeout: 1000 });
+        });
+
+        const result = converter(sourceFixture, { signal: controller.signal });
+        controller.abort();
+
+        await expect(result).rejects.toMatchObject({ type: ConverterErrorType.CANCELLED });
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject a piped conversion with the cancellation error', async () => {
+      const controller = new AbortController();
+      const second = vi.fn((from: { id: string }) => from.id);
+      const toFirst = createConverter<SourceObject, { id: string }>((field) => {
+        field('id', () => new Promise<string>(() => {}));
+      });
+      const toSecond = createConverter<{ id: string }, { id: string }>((field) => {
+        field('id', second);
+      });
+      const converter = pipe(toFirst, toSecond);
+
+      const result = converter(sourceFixture, { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ type: ConverterErrorType.CANCELLED, message: 'Conversion was cancelled' });
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should not start the next pipe stage once the signal aborts', async () => {
+      const controller = new AbortController();
+      const second = vi.fn((from: { id: string }) => from.id);
+      // Aborts in the stage's last step, so only the pipe can notice it
+      const abortingSchema: StandardSchemaV1<{ id: string }> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value) => {
+            controller.abort();
+            return { value: value as { id: string } };
+          },
+        },
+      };
+      const toFirst = createConverter<SourceObject, { id: string }>((field) => {
+        field('id', from => from.id);
+      }, { outputSchema: abortingSchema });
+      const toSecond = createConverter<{ id: string }, { id: string }>((field) => {
+        field('id', second);
+      });
+      const converter = pipe(toFirst, toSecond);
+
+      await expect(converter(sourceFixture, { signal: controller.signal })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+      await expect(converter.safeConvert(sourceFixture, { signal: controller.signal })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should stop starting batch items once the signal aborts', async () => {
+      const controller = new AbortController();
+      const converter = createConverter<{ id: number }, { id: number }>((field) => {
+        field('id', (from) => {
+          if (from.id === 1) controller.abort();
+          return from.id;
+        });
+      });
+
+      const batch = await converter.convertAll([{ id: 0 }, { id: 1 }, { id: 2 }], {
+        concurrency: 1,
+        signal: controller.signal,
+      });
+
+      expect(batch.results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'skipped']);
+      expect(batch.results[1]).toMatchObject({ error: { type: ConverterErrorType.CANCELLED } });
+    });
+  });
+
+  describe('Caching', () => {
+    interface Product extends GenericObject { sku: string; price: number }
+    interface ProductDto extends GenericObject { sku: string; price: string; tags: string[] }
+
+    const createCounted = (options: ConverterOptions<ProductDto, GenericObject, Product>) => {
+      const price = vi.fn(async (from: Product, ctx: GenericObject) => `${ctx.currency ?? 'EUR'} ${from.price}`);
+      const converter = createConverter<Product, ProductDto>((field) => {
+        field('sku', from => from.sku);
+        field('price', price);
+        field('tags', () => ['new']);
+      }, options);
+      return { converter, price };
+    };
+
+    it('should cache by source identity and hand out copies', async () => {
+      const { converter, price } = createCounted({ cache: true });
+      const product = { sku: 'p-1', price: 10 };
+
+      const first = getPrimary(await converter(product));
+      first.tags.push('mutated');
+      const second = getPrimary(await converter(product));
+
+      expect(second).toEqual({ sku: 'p-1', price: 'EUR 10', tags: ['new'] });
+      expect(second).not.toBe(first);
+      expect(price).toHaveBeenCalledTimes(1);
+
+      await converter({ sku: 'p-1', price: 10 });
+      expect(price).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not serve results cached by source identity to calls with other context', async () => {
+      const { converter, price } = createCounted({ cache: true });
+      const product = { sku: 'p-1', price: 10 };
+
+      expect(await converter(product)).toEqual({ sku: 'p-1', price: 'EUR 10', tags: ['new'] });
+      expect(await converter(product, { currency: 'USD' })).toEqual({ sku: 'p-1', price: 'USD 10', tags: ['new'] });
+      expect(await converter(product, { currency: 'GBP' })).toEqual({ sku: 'p-1', price: 'GBP 10', tags: ['new'] });
+      expect(price).toHaveBeenCalledTimes(3);
+
+      await converter(product, { signal: new AbortController().signal });
+      expect(price).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject a cancelled call even when its result is cached', async () => {
+      const { converter, price } = createCounted({ cache: true, logger: noopLogger });
+      const product = { sku: 'p-1', price: 10 };
+      await converter(product);
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(converter(product, { signal: controller.signal })).rejects.toMatchObject({
+        type: ConverterErrorType.CANCELLED,
+      });
+      expect(price).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject instead of throwing when the cache key function fails', async () => {
+      const { converter, price } = createCounted({
+        cache: { key: (from) => (from as Product & { meta?: { id: string } }).meta!.id },
+        logger: noopLogger,
+      });
+
+      let result: Promise<unknown> | undefined;
+      expect(() => {
+        result = converter({ sku: 'p-1', price: 10 });
+      }).not.toThrow();
+      await expect(result).rejects.toThrow(TypeError);
+      expect(price).not.toHaveBeenCalled();
+    });
+
+    it('should cache by a key function that can include the context', async () => {
+      const { converter, price } = createCounted({
+        cache: { key: (from, ctx) => `${from.sku}:${ctx.currency ?? 'EUR'}` },
+      });
+
+      await converter({ sku: 'p-1', price: 10 });
+      expect(await converter({ sku: 'p-1', price: 99 })).toEqual({ sku: 'p-1', price: 'EUR 10', tags: ['new'] });
+      expect(await converter({ sku: 'p-1', price: 10 }, { currency: 'USD' })).toEqual({
+        sku: 'p-1',
+        price: 'USD 10',
+        tags: ['new'],
+      });
+      expect(price).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hand out the same deeply frozen result in freeze mode', async () => {
+      const { converter } = createCounted({ cache: { copy: 'freeze' } });
+      const product = { sku: 'p-1', price: 10 };
+
+      const first = getPrimary(await converter(product));
+      expect(getPrimary(await converter(product))).toBe(first);
+      expect(Object.isFrozen(first)).toBe(true);
+      expect(() => first.tags.push('mutated')).toThrow(TypeError);
+    });
+
+    it('should use a pluggable store and support invalidation', async () => {
+      const store = new Map<string, ProductDto | Many<ProductDto>>();
+      const { converter, price } = createCounted({ cache: { key: from => from.sku, store } });
+      const product = { sku: 'p-1', price: 10 };
+
+      await converter(product);
+      expect([...store.keys()]).toEqual(['p-1']);
+
+      converter.invalidate(product);
+      await converter(product);
+      expect(price).toHaveBeenCalledTimes(2);
+
+      converter.clearCache();
+      expect(store.size).toBe(0);
+    });
+
+    it('should not cache failed conversions or safeConvert calls', async () => {
+      let fail = true;
+      const converter = createConverter<Product, ProductDto>((field) => {
+        field('sku', (from) => {
+          if (fail) throw new Error('Lookup failed');
+          return from.sku;
+        });
+      }, { cache: true });
+      const product = { sku: 'p-1', price: 10 };
+
+      await expect(converter(product)).rejects.toThrow('Lookup failed');
+      fail = false;
+      expect((await converter.safeConvert(product)).ok).toBe(true);
+      fail = true;
+      await expect(converter(product)).rejects.toThrow('Lookup failed');
+
+      fail = false;
+      expect(await converter(product)).toEqual({ sku: 'p-1' });
+      fail = true;
+      expect((await converter.safeConvert(product)).ok).toBe(false);
+      expect(await converter(product)).toEqual({ sku: 'p-1' });
+    });
+
+    it('should cache synchronous converters and keep Many results intact', () => {
+      const fn = vi.fn((from: Product) => from.sku);
+      const converter = createSyncConverter<Product, ProductDto>((field, obj, pre, post, add) => {
+        field('sku', fn);
+        post(() => {
+          add({ sku: 'extra' });
+        });
+      }, { cache: true });
+      const product = { sku: 'p-1', price: 10 };
+
+      converter(product);
+      const result = converter(product);
+
+      expect(result).toBeInstanceOf(Many);
+      expect(getAdditional(result)).toEqual([{ sku: 'extra' }]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    describe('createLruCache', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should evict the least recently used entry', () => {
+        const cache = createLruCache<string, number>({ max: 2 });
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('c')).toBe(3);
+      });
+
+      it('should expire entries after their ttl', () => {
+        vi.useFakeTimers();
+        const cache = createLruCache<string, number>({ ttl: 1000 });
+        cache.set('a', 1);
+
+        vi.advanceTimersByTime(999);
+        expect(cache.get('a')).toBe(1);
+        vi.advanceTimersByTime(1);
+        expect(cache.get('a')).toBeUndefined();
+      });
+    });
+  });
+
+  describe('Batching', () => {
+    interface User extends GenericObject { id: string; name: string }
+    interface ApiPost extends GenericObject { id: string; author_id: string }
+    interface Post extends GenericObject { id: string; author: string }
+    interface LoaderContext extends GenericObject { users: Loader<string, User> }
+
+    const users: Record<string, User> = { u1: { id: 'u1', name: 'Ada' }, u2: { id: 'u2', name: 'Grace' } };
+    const findUsers = vi.fn(async (ids: string[]) => ids.map(id => users[id] ?? new Error(`No user ${id}`)));
+
+    const toPost = createConverter<ApiPost, Post, LoaderContext>((field) => {
+      field('id', from => from.id);
+      field('author', async (from, ctx) => (await ctx.users.load(from.author_id)).name);
+    });
+
+    beforeEach(() => {
+      findUsers.mockClear();
+    });
+
+    it('should batch without process.nextTick outside Node.js', async () => {
+      const loader = createLoader(findUsers);
+      vi.stubGlobal('process', undefined);
+      let loaded: User[];
+      try {
+        loaded = await Promise.all([loader.load('u1'), loader.load('u2')]);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      expect(loaded.map(user => user.name)).toEqual(['Ada', 'Grace']);
+      expect(findUsers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load the keys of a whole batch with one de-duplicated call', async () => {
+      const posts = [
+        { id: 'p1', author_id: 'u1' },
+        { id: 'p2', author_id: 'u2' },
+        { id: 'p3', author_id: 'u1' },
+      ];
+
+      const batch = await toPost.convertAll(posts, { context: { users: createLoader(findUsers) } });
+
+      expect(batch.results.map(r => r.status === 'fulfilled' && r.value.author)).toEqual(['Ada', 'Grace', 'Ada']);
+      expect(findUsers).toHaveBeenCalledTimes(1);
+      expect(findUsers).toHaveBeenCalledWith(['u1', 'u2']);
+    });
+
+    it('should report a failed key as a field error of the object that asked for it', async () => {
+      const batch = await toPost.convertAll(
+        [{ id: 'p1', author_id: 'u1' }, { id: 'p2', author_id: 'missing' }],
+        { context: { users: createLoader(findUsers) } }
+      );
+
+      expect(batch.results[0].status).toBe('fulfilled');
+      expect(batch.results[1]).toMatchObject({
+        status: 'rejected',
+        error: { type: ConverterErrorType.FIELD_CONVERSION, path: ['author'] },
+      });
+      expect(findUsers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should batch lookups of nested converters and keep their paths', async () => {
+      const toThread = createConverter<{ posts: ApiPost[] }, { posts: Post[] }, LoaderContext>((field) => {
+        field('posts', each(toPost, from => from.posts, { concurrency: 10 }));
+      });
+
+      const error = await toThread(
+        { posts: [{ id: 'p1', author_id: 'u1' }, { id: 'p2', author_id: 'missing' }] },
+        { users: createLoader(findUsers) }
+      ).catch(err => err);
+
+      expect(error.path).toEqual(['posts', 1, 'author']);
+      expect(findUsers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should split batches by maxBatchSize and identify keys with cacheKey', async () => {
+      const batchFn = vi.fn(async (keys: { id: string }[]) => keys.map(key => key.id.toUpperCase()));
+      const loader = createLoader(batchFn, { maxBatchSize: 2, cacheKey: key => key.id });
+
+      const values = await loader.loadMany([{ id: 'a' }, { id: 'b' }, { id: 'a' }, { id: 'c' }]);
+
+      expect(values).toEqual(['A', 'B', 'A', 'C']);
+      expect(batchFn.mock.calls.map(([keys]) => keys.map(key => key.id))).toEqual([['a', 'b'], ['c']]);
+    });
+
+    it('should reject every key of a batch when the batch function fails', async () => {
+      const loader = createLoader<string, string>(async () => {
+        throw new Error('Service unavailable');
+      });
+
+      await expect(Promise.all([loader.load('a'), loader.load('b')])).rejects.toThrow('Service unavailable');
+      await expect(createLoader<string, string>(() => []).load('a')).rejects.toThrow(
+        'The batch function returned 0 values for 1 keys'
+      );
+    });
+  });
+
+  describe('Graph Conversion', () => {
+    interface Person extends GenericObject { name: string; friends: Person[]; partner?: Person }
+    interface PersonDto extends GenericObject { name: string; friends: PersonDto[]; partner?: PersonDto }
+
+    const createToPersonDto = (graph: boolean) => {
+      const name = vi.fn((from: Person) => from.name);
+      // The converter refers to itself, so it is only looked up once a field runs
+      const toPersonDto = createConverter<Person, PersonDto>((field) => {
+        field('name', name);
+        field('friends', (from, ctx) => Promise.all(from.friends.map(async friend => getPrimary(await toPersonDto(friend, ctx)))));
+        field('partner', async (from, ctx) => (from.partner ? getPrimary(await toPersonDto(from.partner, ctx)) : undefined));
+      }, { graph });
+      return { toPersonDto, name };
+    };
+
+    it('should turn cycles in the source into cycles in the target', async () => {
+      const { toPersonDto } = createToPersonDto(true);
+      const ada: Person = { name: 'Ada', friends: [] };
+      const grace: Person = { name: 'Grace', friends: [ada] };
+      ada.friends.push(grace);
+      ada.partner = ada;
+
+      const result = getPrimary(await toPersonDto(ada));
+
+      expect(result.name).toBe('Ada');
+      expect(result.partner).toBe(result);
+      expect(result.friends[0].name).toBe('Grace');
+      expect(result.friends[0].friends[0]).toBe(result);
+    });
+
+    it('should map a shared source object to one target instance', async () => {
+      const { toPersonDto, name } = createToPersonDto(true);
+      const linus: Person = { name: 'Linus', friends: [] };
+      const root: Person = { name: 'Root', friends: [linus, { name: 'Ken', friends: [linus] }], partner: linus };
+
+      const result = getPrimary(await toPersonDto(root));
+
+      expect(result.friends[0]).toBe(result.partner);
+      expect(result.friends[1].friends[0]).toBe(result.partner);
+      expect(name).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep identity for one call only', async () => {
+      const { toPersonDto } = createToPersonDto(true);
+      const linus: Person = { name: 'Linus', friends: [] };
+
+      const first = getPrimary(await toPersonDto(linus));
+      const second = getPrimary(await toPersonDto(linus));
+
+      expect(second).toEqual(first);
+      expect(second).not.toBe(first);
+    });
+
+    it('should give each converter its own target for the same source', async () => {
+      const toLabel = createConverter<Person, { label: string }>((field) => {
+        field('label', from => from.name.toUpperCase());
+      });
+      const toCard = createConverter<{ person: Person }, { dto: { label: string }; owner: PersonDto }>((field) => {
+        field('dto', nested(toLabel, from => from.person));
+        field('owner', nested(createToPersonDto(false).toPersonDto, from => from.person));
+      }, { graph: true });
+
+      const result = getPrimary(await toCard({ person: { name: 'Ada', friends: [] } }));
+
+      expect(result.dto).toEqual({ label: 'ADA' });
+      expect(result.owner).toEqual({ name: 'Ada', friends: [] });
+    });
+
+    it('should convert shared objects separately without graph mode', async () => {
+      const { toPersonDto, name } = createToPersonDto(false);
+      const linus: Person = { name: 'Linus', friends: [] };
+
+      const result = getPrimary(await toPersonDto({ name: 'Root', friends: [linus], partner: linus }));
+
+      expect(result.friends[0]).toEqual(result.partner);
+      expect(result.friends[0]).not.toBe(result.partner);
+      expect(name).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Tracing', () => {
+    const createRecorder = () => {
+      const events: string[] = [];
+      const ends: { kind: string; name: string; outcome: string; duration: number; errorType?: ConverterErrorType }[] = [];
+      const instrumentation: Instrumentation = {
+        onStart: step => events.push(`start ${step.kind} ${step.name}`),
+        onEnd: (step, { outcome, duration, errorType }) => {
+          events.push(`end ${step.kind} ${step.name}`);
+          ends.push({ kind: step.kind, name: step.name, outcome, duration, errorType });
+        },
+      };
+      return { events, ends, instrumentation };
+    };
+
+    const createInMemoryTracer = () => {
+      const spans: {
+        name: string;
+        parent?: string;
+        attributes: Record<string, string | number | boolean>;
+        status?: { code: number; message?: string };
+        exceptions: unknown[];
+        ended: boolean;
+      }[] = [];
+      const tracer = {
+        startSpan: (name: string, options?: { attributes?: Record<string, string | number | boolean> }, context?: { span: string }) => {
+          const record = { name, parent: context?.span, attributes: { ...options?.attributes }, exceptions: [] as unknown[], ended: false } as (typeof spans)[number];
+          spans.push(record);
+          return {
+            setAttribute: (key: string, value: string | number | boolean) => { record.attributes[key] = value; },
+            setStatus: (status: { code: number; message?: string }) => { record.status = status; },
+            recordException: (exception: Error | string) => { record.exceptions.push(exception); },
+            end: () => { record.ended = true; },
+            name,
+          };
+        },
+      };
+      return { tracer, spans };
+    };
+
+    it('should report every step of a conversion in order', async () => {
+      const { events, ends, instrumentation } = createRecorder();
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        pre(() => {}, 'prepare');
+        field('id', from => from.id);
+        field('age', async from => from.age);
+        obj(() => ({ isActive: true }));
+        post(() => {}, 'audit');
+      }, { name: 'toTarget', instrumentation, requiredFields: ['id'] });
+
+      await converter(sourceFixture);
+
+      expect(events).toEqual([
+        'start conversion toTarget',
+        'start pre-hook prepare',
+        'end pre-hook prepare',
+        'start field id',
+        'end field id',
+        'start field age',
+        'end field age',
+        'start object object function',
+        'end object object function',
+        'start post-hook audit',
+        'end post-hook audit',
+        'start validation required fields',
+        'end validation required fields',
+        'end conversion toTarget',
+      ]);
+      for (const end of ends) {
+        expect(end.outcome).toBe('success');
+        expect(end.duration).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should report the outcome and error type of failed steps', async () => {
+      const { ends, instrumentation } = createRecorder();
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: 'skip' });
+        field('id', () => {
+          throw new Error('No id');
+        });
+      }, { instrumentation });
+
+      await expect(converter(sourceFixture)).rejects.toThrow('No id');
+
+      expect(ends).toEqual([
+        expect.objectContaining({ kind: 'field', name: 'age', outcome: 'error', errorType: ConverterErrorType.FIELD_CONVERSION }),
+        expect.objectContaining({ kind: 'field', name: 'id', outcome: 'error', errorType: ConverterErrorType.FIELD_CONVERSION }),
+        expect.objectContaining({ kind: 'conversion', name: 'converter', outcome: 'error', errorType: ConverterErrorType.FIELD_CONVERSION }),
+      ]);
+    });
+
+    it('should report validation failures', async () => {
+      const { ends, instrumentation } = createRecorder();
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+      }, { instrumentation, requiredFields: ['emailAddress'], errorHandling: 'warn', logger: noopLogger });
+
+      await converter(sourceFixture);
+
+      expect(ends).toContainEqual(
+        expect.objectContaining({ kind: 'validation', name: 'required fields', outcome: 'error', errorType: ConverterErrorType.VALIDATION })
+      );
+      expect(ends.at(-1)).toEqual(expect.objectContaining({ kind: 'conversion', outcome: 'success' }));
+    });
+
+    it('should report cancelled steps', async () => {
+      const { ends, instrumentation } = createRecorder();
+      const controller = new AbortController();
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', () => new Promise<string>(() => {}));
+      }, { instrumentation });
+
+      const result = converter(sourceFixture, { signal: controller.signal });
+      controller.abort();
+      await expect(result).rejects.toThrow(ConverterError);
+
+      expect(ends).toEqual([
+        expect.objectContaining({ kind: 'field', name: 'id', outcome: 'cancelled', errorType: ConverterErrorType.CANCELLED }),
+        expect.objectContaining({ kind: 'conversion', outcome: 'cancelled', errorType: ConverterErrorType.CANCELLED }),
+      ]);
+    });
+
+    it('should link nested conversions to the conversion they ran in', async () => {
+      const parents: (string | undefined)[] = [];
+      const instrumentation: Instrumentation = {
+        onStart: step => {
+          if (step.kind === 'conversion') parents.push(step.parent && `${step.parent.kind} ${step.parent.name}`);
+        },
+      };
+      const toNested = createConverter<{ property: string }, { value: string }>((field) => {
+        field('value', from => from.property);
+      }, { name: 'toNested', instrumentation });
+      const converter = createConverter<SourceObject, GenericObject>((field) => {
+        field('nested', nested(toNested, from => from.nested));
+      }, { name: 'toTarget', instrumentation });
+
+      await converter(sourceFixture);
+
+      expect(parents).toEqual([undefined, 'conversion toTarget']);
+    });
+
+    it('should log instrumentation failures without changing the outcome', async () => {
+      const logger = createLogger();
+      const instrumentation: Instrumentation = {
+        onStart: () => {
+          throw new Error('tracer down');
+        },
+        onEnd: () => {
+          throw new Error('tracer down');
+        },
+      };
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+      }, { instrumentation, logger });
+
+      let result: Promise<unknown> | undefined;
+      expect(() => {
+        result = converter(sourceFixture);
+      }).not.toThrow();
+
+      expect(await result).toEqual({ id: '123' });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Instrumentation failed in onStart of conversion 'converter'",
+        { error: expect.objectContaining({ message: 'tracer down' }) }
+      );
+      expect(logger.warn).toHaveBeenCalledWith("Instrumentation failed in onEnd of field 'id'", expect.anything());
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should not time anything without instrumentation', async () => {
+      const now = vi.spyOn(performance, 'now');
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+      });
+
+      await converter(sourceFixture);
+
+      expect(now).not.toHaveBeenCalled();
+      now.mockRestore();
+    });
+
+    it('should record steps as spans of an OpenTelemetry-style tracer', async () => {
+      const { tracer, spans } = createInMemoryTracer();
+      const instrumentation = createSpanInstrumentation(tracer, { contextFor: span => ({ span: (span as unknown as { name: string }).name }) });
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => from.id);
+        field('age', () => {
+          throw new Error('Age calculation failed');
+        }, { onError: { fallback: 0 } });
+      }, { name: 'toTarget', instrumentation });
+
+      await converter(sourceFixture);
+
+      expect(spans.map(({ name, parent }) => [name, parent])).toEqual([
+        ['conversion toTarget', undefined],
+        ['field id', 'conversion toTarget'],
+        ['field age', 'conversion toTarget'],
+      ]);
+      expect(spans.every(span => span.ended)).toBe(true);
+      expect(spans[1].status).toEqual({ code: 1 });
+      expect(spans[1].attributes).toEqual(expect.objectContaining({
+        'converter.step.kind': 'field',
+        'converter.step.name': 'id',
+        'converter.outcome': 'success',
+        'converter.duration_ms': expect.any(Number),
+      }));
+      expect(spans[2].status).toEqual({ code: 2, message: expect.stringContaining('Age calculation failed') });
+      expect(spans[2].attributes['converter.error_type']).toBe(ConverterErrorType.FIELD_CONVERSION);
+      expect(spans[2].exceptions).toEqual([expect.any(ConverterError)]);
+    });
+  });
+
+  describe('Required Fields', () => {
+    it('should validate required fields', async () => {
+      const converter = createConverter<Partial<SourceObject>, TargetObject>((field) => {
+        field('id', from => from.id || '');
+        field('displayName', from => from.name || '');
+        field('emailAddress', from => from.email || '');
+        field('created', from => from.createdAt ? new Date(from.createdAt) : new Date());
+        field('age', from => from.age || 0);
+        field('isActive', from => from.active || false);
+        field('nestedProperty', from => from.nested?.property || '');
+        field('tagList', from => from.tags?.join(', ') || '');
+      }, {
+        requiredFields: ['id', 'emailAddress']
+      });
+
+      // Missing required fields
+      await expect(converter({})).rejects.toThrow(ConverterError);
+      await expect(converter({})).rejects.toThrow(/Missing required fields/);
+      
+      // With required fields
+      const result = await converter({
+        id: '456',
+        email: 'test@example.com'
+      });
+      
+      const primary = getPrimary(result);
+      expect(primary.id).toBe('456');
+      expect(primary.emailAddress).toBe('test@example.com');
+    });
+
+    it('should mark fields as required in field definition', async () => {
+      const mockLogger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      };
+      
       const converter = createConverter<Partial<SourceObject>, TargetObject>((field) => {
         field('id', from => from.id || '', { required: true });
         field('displayName', from => from.name || '');
@@ -637,110 +2700,674 @@ describe('Converter Library', () => {
         field('nestedProperty', from => from.nested?.property || '');
         field('tagList', from => from.tags?.join(', ') || '');
       }, {
-        errorHandling: 'warn',
-        logger: mockLogger,
-        requiredFields: ['id', 'emailAddress'] // Add requiredFields to trigger validation
+        errorHandling: 'warn',
+        logger: mockLogger,
+        requiredFields: ['id', 'emailAddress'] // Add requiredFields to trigger validation
+      });
+
+      // With missing required field
+      await converter({
+        id: '456'
+      });
+      
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Missing required fields'),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Many Class', () => {
+    it('should return Many instance when additional objects are added', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', from => from.id);
+        field('displayName', from => from.name);
+        field('emailAddress', from => from.email);
+        field('created', from => new Date(from.createdAt));
+        field('age', from => from.age);
+        field('isActive', from => from.active);
+        field('nestedProperty', from => from.nested.property);
+        field('tagList', from => from.tags.join(', '));
+        
+        post((ctx, from, to) => {
+          // Add additional objects
+          add({
+            id: 'additional-1',
+            displayName: 'Additional 1',
+            emailAddress: 'additional1@example.com',
+            created: new Date(),
+            age: 25,
+            isActive: true,
+            nestedProperty: '',
+            tagList: ''
+          });
+          
+          add({
+            id: 'additional-2',
+            displayName: 'Additional 2',
+            emailAddress: 'additional2@example.com',
+            created: new Date(),
+            age: 35,
+            isActive: false,
+            nestedProperty: '',
+            tagList: ''
+          });
+        });
+      });
+
+      const result = await converter(sourceFixture);
+      
+      expect(hasAdditional(result)).toBe(true);
+      expect(result).toBeInstanceOf(Many);
+      expect(result.length).toBe(3);
+      
+      const primary = getPrimary(result);
+      const additionalObjects = getAdditional(result);
+      
+      expect(primary.id).toBe('123');
+      expect(additionalObjects[0].id).toBe('additional-1');
+      expect(additionalObjects[1].id).toBe('additional-2');
+    });
+
+    it('should throw if primary converted object is null', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', from => from.id);
+        field('displayName', from => from.name);
+        field('emailAddress', from => from.email);
+        field('created', from => new Date(from.createdAt));
+        field('age', from => from.age);
+        field('isActive', from => from.active);
+        field('nestedProperty', from => from.nested.property);
+        field('tagList', from => from.tags.join(', '));
+        
+        post((ctx, from, to) => {
+          // Make the primary object invalid by setting required fields to null/undefined
+          // Note: We can't directly set 'to' to null as it's a reference
+          Object.keys(to).forEach(key => {
+            (to as any)[key] = null;
+          });
+          
+          // Add some additional objects
+          add({
+            id: 'additional-1',
+            displayName: 'Additional 1',
+            emailAddress: 'additional1@example.com',
+            created: new Date(),
+            age: 25,
+            isActive: true,
+            nestedProperty: '',
+            tagList: ''
+          });
+        });
+      });
+
+      // This should throw because the primary object is empty
+      // but Many requires a valid primary object
+      await expect(converter(sourceFixture)).rejects.toThrow();
+    });
+  });
+
+  describe('converter builder', () => {
+    interface Summary extends GenericObject {
+      id: string;
+      displayName: string;
+      age?: number;
+    }
+
+    it('should build a converter from chained registrations', async () => {
+      const preHook = vi.fn();
+      const toSummary = converter<SourceObject, Summary, TestContext>()
+        .pre(preHook)
+        .field('id', from => from.id)
+        .obj(from => ({ displayName: from.name }))
+        .post((ctx, from, to) => {
+          to.displayName = `${to.displayName} (${ctx.role})`;
+        })
+        .build({ context: { userId: 'u', role: 'admin' } });
+
+      expect(await toSummary(sourceFixture)).toEqual({ id: '123', displayName: 'John Doe (admin)' });
+      expect(preHook).toHaveBeenCalledTimes(1);
+      expect(typeof toSummary.convertAll).toBe('function');
+    });
+
+    it('should behave exactly like the positional definition', async () => {
+      const failing = converter<SourceObject, Summary>()
+        .field('id', from => from.id)
+        .field('displayName', () => {
+          throw new Error('Display name failed');
+        })
+        .build({ requiredFields: ['id'] });
+
+      const positional = createConverter<SourceObject, Summary>((field) => {
+        field('id', from => from.id);
+        field('displayName', () => {
+          throw new Error('Display name failed');
+        });
+      }, { requiredFields: ['id'] });
+
+      await expect(failing(sourceFixture)).rejects.toThrow(/Display name failed/);
+      expect(await failing.safeConvert(sourceFixture)).toEqual(await positional.safeConvert(sourceFixture));
+    });
+
+    it('should keep builders immutable', async () => {
+      const base = converter<SourceObject, Summary>().field('id', from => from.id);
+      const withName = base.field('displayName', from => from.name).build();
+      const withUpperName = base.field('displayName', from => from.name.toUpperCase()).build();
+
+      expect(await withName(sourceFixture)).toEqual({ id: '123', displayName: 'John Doe' });
+      expect(await withUpperName(sourceFixture)).toEqual({ id: '123', displayName: 'JOHN DOE' });
+    });
+
+    it('should only allow build once required keys are mapped', () => {
+      const partial = converter<SourceObject, Summary>().field('id', from => from.id);
+
+      expectTypeOf(partial.build).toEqualTypeOf<{ 'Missing required fields': 'displayName' }>();
+      // @ts-expect-error - displayName has not been mapped
+      expect(() => partial.build()).not.toThrow();
+
+      const complete = partial.obj(from => ({ displayName: from.name }));
+      expectTypeOf(complete.build).toBeFunction();
+    });
+  });
+
+  describe('createSyncConverter', () => {
+    it('should return the converted object directly', () => {
+      const converter = createSyncConverter<SourceObject, TargetObject, TestContext>((field, obj, pre, post) => {
+        field('id', from => from.id);
+        field('displayName', (from, ctx) => `${from.name} (${ctx.role})`);
+        obj(from => ({ tagList: from.tags.join(', ') }));
+        post((ctx, from, to) => {
+          to.age = from.age + 1;
+        });
+      }, {
+        context: { userId: 'default-user', role: 'default-role' }
+      });
+
+      expect(converter(sourceFixture, { role: 'admin' })).toEqual({
+        id: '123',
+        displayName: 'John Doe (admin)',
+        tagList: 'tag1, tag2, tag3',
+        age: 31
+      });
+    });
+
+    it('should support additional objects and field dependencies', () => {
+      const converter = createSyncConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('displayName', (from, ctx, to) => `${to.id}: ${from.name}`, { dependsOn: ['id'] });
+        field('id', from => from.id);
+        post(() => {
+          add({ id: 'extra' });
+        });
+      }, {
+        parallelFields: true
+      });
+
+      const result = converter(sourceFixture);
+
+      expect(result).toBeInstanceOf(Many);
+      expect(getPrimary(result)).toEqual({ id: '123', displayName: '123: John Doe' });
+      expect(getAdditional(result)).toEqual([{ id: 'extra' }]);
+    });
+
+    it('should follow the same error handling as async converters', () => {
+      const mockLogger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      };
+      const define = (errorHandling: 'throw' | 'warn') =>
+        createSyncConverter<SourceObject, TargetObject>((field) => {
+          field('id', from => from.id);
+          field('age', () => {
+            throw new Error('Age calculation failed');
+          });
+        }, { errorHandling, logger: mockLogger });
+
+      expect(() => define('throw')(sourceFixture)).toThrow(ConverterError);
+      expect(define('warn')(sourceFixture)).toEqual({ id: '123' });
+      expect(define('throw').safeConvert(sourceFixture)).toMatchObject({
+        ok: false,
+        value: { id: '123' },
+        errors: [expect.objectContaining({ type: ConverterErrorType.FIELD_CONVERSION, fieldName: 'age' })]
+      });
+    });
+
+    it('should throw if a registered function returns a promise', () => {
+      const asyncField = createSyncConverter<SourceObject, TargetObject>((field) => {
+        field('id', async from => from.id);
+      });
+      const asyncHook = createSyncConverter<SourceObject, TargetObject>((field, obj, pre) => {
+        pre(async function loadUser() {});
+      }, { errorHandling: 'ignore' });
+
+      expect(() => asyncField(sourceFixture)).toThrow(ConverterError);
+      expect(() => asyncField(sourceFixture)).toThrow(/field 'id'/);
+      try {
+        asyncHook(sourceFixture);
+        expect.unreachable();
+      } catch (err) {
+        expect((err as ConverterError).type).toBe(ConverterErrorType.ASYNC_RESULT);
+        expect((err as ConverterError).message).toContain("pre-hook 'loadUser'");
+      }
+    });
+
+    it('should throw async results whatever the error policies', () => {
+      const converter = createSyncConverter<SourceObject, TargetObject>((field) => {
+        field('id', async from => from.id, { onError: { fallback: '' } });
+      }, { errorHandling: 'ignore' });
+      const toChild = createSyncConverter<{ name: string }, { name: string }>((field) => {
+        field('name', async from => from.name);
+      });
+      const withNested = createSyncConverter<SourceObject, GenericObject>((field) => {
+        field('child', nested(toChild, () => ({ name: 'a' })), { onError: 'skip' });
+      }, { errorHandling: 'ignore', logger: noopLogger });
+      const withEach = createSyncConverter<SourceObject, GenericObject>((field) => {
+        field('children', each(toChild, () => [{ name: 'b' }], { onError: 'drop' }));
+      }, { errorHandling: 'ignore', logger: noopLogger });
+
+      expect(() => converter(sourceFixture)).toThrow(expect.objectContaining({ type: ConverterErrorType.ASYNC_RESULT }));
+      expect(() => converter.safeConvert(sourceFixture)).toThrow(/field 'id' returned a promise/);
+      expect(() => withNested(sourceFixture)).toThrow(expect.objectContaining({ type: ConverterErrorType.ASYNC_RESULT }));
+      expect(() => withEach(sourceFixture)).toThrow(expect.objectContaining({ type: ConverterErrorType.ASYNC_RESULT }));
+    });
+  });
+
+  describe('Concurrent Conversions', () => {
+    it('should keep additional objects scoped to each call', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        field('id', from => from.id);
+        pre(async (ctx, from, to, add) => {
+          add({ id: `${from.id}-pre` });
+          await delay(Math.random() * 10);
+        });
+        post(async (ctx, from, to, add) => {
+          await delay(Math.random() * 10);
+          add({ id: `${from.id}-post` });
+        });
+      });
+
+      const ids = Array.from({ length: 25 }, (_, i) => `item-${i}`);
+      const results = await Promise.all(ids.map(id => converter({ ...sourceFixture, id })));
+
+      results.forEach((result, i) => {
+        expect(result).toBeInstanceOf(Many);
+        expect(Array.from(result as Many<TargetObject>).map(o => o.id)).toEqual([
+          ids[i],
+          `${ids[i]}-pre`,
+          `${ids[i]}-post`
+        ]);
+      });
+    });
+
+    it('should route the definition-level add to the current call', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', from => from.id);
+        field('age', async from => {
+          await delay(Math.random() * 10);
+          add({ id: `${from.id}-extra` });
+          return from.age;
+        });
+      });
+
+      const ids = Array.from({ length: 25 }, (_, i) => `item-${i}`);
+      const results = await Promise.all(ids.map(id => converter({ ...sourceFixture, id })));
+
+      results.forEach((result, i) => {
+        expect(getAdditional(result).map(o => o.id)).toEqual([`${ids[i]}-extra`]);
+      });
+    });
+
+    it('should not leak additional objects into later calls', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        field('id', from => from.id);
+        post((ctx, from, to, add) => {
+          if (from.id === 'with-extra') add({ id: 'extra' });
+        });
+      });
+
+      expect(hasAdditional(await converter({ ...sourceFixture, id: 'with-extra' }))).toBe(true);
+      expect(hasAdditional(await converter({ ...sourceFixture, id: 'plain' }))).toBe(false);
+    });
+
+    // Loads a fresh copy of the library the way Node.js versions without getBuiltinModule do
+    const importWithoutGetBuiltinModule = async () => {
+      const runtime = process as { getBuiltinModule?: unknown };
+      const { getBuiltinModule } = runtime;
+      delete runtime.getBuiltinModule;
+      try {
+        vi.resetModules();
+        const lib = await import('../src/index');
+        await vi.dynamicImportSettled();
+        return lib;
+      } finally {
+        if (getBuiltinModule) runtime.getBuiltinModule = getBuiltinModule;
+      }
+    };
+
+    it('should load async context in Node.js versions without getBuiltinModule', async () => {
+      const lib = await importWithoutGetBuiltinModule();
+      const converter = lib.createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', async from => {
+          await delay(Math.random() * 10);
+          add({ id: `${from.id}-extra` });
+          return from.id;
+        });
+      });
+
+      const ids = Array.from({ length: 10 }, (_, i) => `item-${i}`);
+      const results = await Promise.all(ids.map(id => converter({ ...sourceFixture, id })));
+
+      results.forEach((result, i) => {
+        expect(lib.getAdditional(result).map(o => o.id)).toEqual([`${ids[i]}-extra`]);
+      });
+    });
+
+    it('should keep calls apart in runtimes without async context', async () => {
+      // Load a fresh copy of the library that cannot find AsyncLocalStorage
+      vi.doMock('node:async_hooks', () => ({ AsyncLocalStorage: undefined }));
+      const lib = await importWithoutGetBuiltinModule().finally(() => vi.doUnmock('node:async_hooks'));
+
+      const toChild = lib.createConverter<{ name: string }, { name: string }>((field) => {
+        field('name', from => from.name);
+      });
+      const converter = lib.createConverter<SourceObject, GenericObject>((field, obj, pre, post, add) => {
+        field('id', async from => {
+          add({ id: `${from.id}-extra` });
+          await delay(Math.random() * 10);
+          return from.id;
+        });
+        field('children', lib.each(toChild, () => [{ name: 'a' }, { name: 'b' }], { concurrency: 2 }));
+      }, { graph: true });
+
+      const ids = Array.from({ length: 10 }, (_, i) => `item-${i}`);
+      const results = await Promise.all(ids.map(id => converter({ ...sourceFixture, id })));
+
+      results.forEach((result, i) => {
+        expect(lib.getPrimary(result)).toEqual({ id: ids[i], children: [{ name: 'a' }, { name: 'b' }] });
+        expect(lib.getAdditional(result).map(o => o.id)).toEqual([`${ids[i]}-extra`]);
+      });
+
+      // Without async context, the call is no longer known once the field function has awaited
+      const late = lib.createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        field('id', async from => {
+          await delay(1);
+          add({ id: 'late' });
+          return from.id;
+        });
+      });
+      await expect(late(sourceFixture)).rejects.toThrow('add() can only be called while a conversion is running');
+    });
+
+    it('should reject add() calls made outside of a conversion', () => {
+      let definitionAdd: ((...args: GenericObject[]) => GenericObject[]) | undefined;
+      createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
+        definitionAdd = add;
+      });
+
+      expect(() => definitionAdd!({ id: 'orphan' })).toThrow(ConverterError);
+    });
+  });
+
+  describe('convertAll', () => {
+    it('should convert every item and preserve input order', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', async from => {
+          await delay(Number(from.id) % 3 * 5);
+          return from.id;
+        });
+      });
+
+      const items = Array.from({ length: 10 }, (_, i) => ({ ...sourceFixture, id: String(i) }));
+      const batch = await converter.convertAll(items);
+
+      expect(batch.succeeded).toBe(10);
+      expect(batch.failed).toBe(0);
+      expect(batch.skipped).toBe(0);
+      expect(batch.results.map(r => r.status === 'fulfilled' && r.value.id)).toEqual(items.map(i => i.id));
+    });
+
+    it('should cap the number of conversions in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', async from => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await delay(5);
+          inFlight--;
+          return from.id;
+        });
+      });
+
+      const items = Array.from({ length: 12 }, (_, i) => ({ ...sourceFixture, id: String(i) }));
+      const batch = await converter.convertAll(items, { concurrency: 3 });
+
+      expect(batch.succeeded).toBe(12);
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should report per-item failures without failing the batch', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post) => {
+        field('id', from => {
+          if (from.id === 'bad') throw new Error('Bad item');
+          return from.id;
+        });
+        post((ctx, from, to, add) => {
+          add({ id: `${from.id}-extra` });
+        });
+      });
+
+      const batch = await converter.convertAll([
+        { ...sourceFixture, id: 'a' },
+        { ...sourceFixture, id: 'bad' },
+        { ...sourceFixture, id: 'c' }
+      ]);
+
+      expect(batch.succeeded).toBe(2);
+      expect(batch.failed).toBe(1);
+      expect(batch.results[0]).toEqual({
+        status: 'fulfilled',
+        index: 0,
+        value: { id: 'a' },
+        additional: [{ id: 'a-extra' }]
+      });
+      const failure = batch.results[1];
+      expect(failure.status).toBe('rejected');
+      if (failure.status === 'rejected') {
+        expect(failure.error).toBeInstanceOf(ConverterError);
+        expect(failure.error.type).toBe(ConverterErrorType.FIELD_CONVERSION);
+        expect(failure.error.fieldName).toBe('id');
+      }
+    });
+
+    it('should skip remaining items when stopOnError is set', async () => {
+      const converter = createConverter<SourceObject, TargetObject>((field) => {
+        field('id', from => {
+          if (from.id === '1') throw new Error('Bad item');
+          return from.id;
+        });
+      });
+
+      const items = Array.from({ length: 5 }, (_, i) => ({ ...sourceFixture, id: String(i) }));
+      const batch = await converter.convertAll(items, { concurrency: 1, stopOnError: true });
+
+      expect(batch.results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'skipped', 'skipped', 'skipped']);
+      expect(batch).toMatchObject({ succeeded: 1, failed: 1, skipped: 3 });
+    });
+
+    it('should pass batch context and use the converter logger', async () => {
+      const mockLogger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      };
+      const converter = createConverter<SourceObject, TargetObject, TestContext>((field) => {
+        field('displayName', (from, ctx) => `${from.name} (${ctx.role})`);
+      }, {
+        context: { userId: 'default-user', role: 'default-role' },
+        logger: mockLogger
       });
 
-      // With missing required field
-      await converter({
-        id: '456'
+      const batch = await converter.convertAll([sourceFixture], { context: { role: 'admin' } });
+
+      expect(batch.results[0]).toMatchObject({ value: { displayName: 'John Doe (admin)' } });
+      expect(mockLogger.info).toHaveBeenCalledWith('Batch conversion complete', { succeeded: 1, failed: 0, skipped: 0 });
+    });
+  });
+
+  describe('Streaming', () => {
+    interface Row extends GenericObject {
+      id: number;
+    }
+
+    interface Converted extends GenericObject {
+      id: number;
+      kind: string;
+    }
+
+    const createRowConverter = (onField: () => void = () => {}) =>
+      createConverter<Row, Converted>((field, obj, pre, post) => {
+        field('id', async from => {
+          onField();
+          await delay((5 - (from.id % 5)) * 2);
+          return from.id;
+        });
+        field('kind', () => 'primary');
+        post((ctx, from, to, add) => {
+          if (from.id % 2 === 0) add({ id: from.id, kind: 'extra' });
+        });
       });
-      
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining('Missing required fields'),
-        expect.any(Object)
+
+    async function* rows(count: number, onPull: (id: number) => void = () => {}) {
+      for (let id = 0; id < count; id++) {
+        onPull(id);
+        yield { id };
+      }
+    }
+
+    const collect = async <T>(iterable: AsyncIterable<T>) => {
+      const out: T[] = [];
+      for await (const item of iterable) out.push(item);
+      return out;
+    };
+
+    it('should convert an async iterable in order and flatten additional objects', async () => {
+      const output = await collect(convertIterable(createRowConverter(), rows(4), { concurrency: 3 }));
+
+      expect(output).toEqual([
+        { id: 0, kind: 'primary' },
+        { id: 0, kind: 'extra' },
+        { id: 1, kind: 'primary' },
+        { id: 2, kind: 'primary' },
+        { id: 2, kind: 'extra' },
+        { id: 3, kind: 'primary' }
+      ]);
+    });
+
+    it('should emit additional objects on the side channel when requested', async () => {
+      const onAdditional = vi.fn();
+      const output = await collect(
+        convertIterable(createRowConverter(), [{ id: 0 }, { id: 1 }], { additional: 'side', onAdditional })
       );
+
+      expect(output).toEqual([{ id: 0, kind: 'primary' }, { id: 1, kind: 'primary' }]);
+      expect(onAdditional).toHaveBeenCalledTimes(1);
+      expect(onAdditional).toHaveBeenCalledWith([{ id: 0, kind: 'extra' }], { id: 0, kind: 'primary' });
     });
-  });
 
-  describe('Many Class', () => {
-    it('should return Many instance when additional objects are added', async () => {
-      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
-        field('id', from => from.id);
-        field('displayName', from => from.name);
-        field('emailAddress', from => from.email);
-        field('created', from => new Date(from.createdAt));
-        field('age', from => from.age);
-        field('isActive', from => from.active);
-        field('nestedProperty', from => from.nested.property);
-        field('tagList', from => from.tags.join(', '));
-        
-        post((ctx, from, to) => {
-          // Add additional objects
-          add({
-            id: 'additional-1',
-            displayName: 'Additional 1',
-            emailAddress: 'additional1@example.com',
-            created: new Date(),
-            age: 25,
-            isActive: true,
-            nestedProperty: '',
-            tagList: ''
-          });
-          
-          add({
-            id: 'additional-2',
-            displayName: 'Additional 2',
-            emailAddress: 'additional2@example.com',
-            created: new Date(),
-            age: 35,
-            isActive: false,
-            nestedProperty: '',
-            tagList: ''
-          });
+    it('should bound concurrency and only pull source items on demand', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      let pulled = 0;
+      const converter = createConverter<Row, Converted>((field) => {
+        field('id', async from => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await delay(2);
+          inFlight--;
+          return from.id;
         });
       });
 
-      const result = await converter(sourceFixture);
-      
-      expect(hasAdditional(result)).toBe(true);
-      expect(result).toBeInstanceOf(Many);
-      expect(result.length).toBe(3);
-      
-      const primary = getPrimary(result);
-      const additionalObjects = getAdditional(result);
-      
-      expect(primary.id).toBe('123');
-      expect(additionalObjects[0].id).toBe('additional-1');
-      expect(additionalObjects[1].id).toBe('additional-2');
+      const iterator = convertIterable(converter, rows(100, () => pulled++), { concurrency: 2 });
+      await iterator.next();
+      await iterator.next();
+      await iterator.return(undefined);
+
+      expect(maxInFlight).toBeLessThanOrEqual(2);
+      expect(pulled).toBeLessThanOrEqual(4);
     });
 
-    it('should throw if primary converted object is null', async () => {
-      const converter = createConverter<SourceObject, TargetObject>((field, obj, pre, post, add) => {
-        field('id', from => from.id);
-        field('displayName', from => from.name);
-        field('emailAddress', from => from.email);
-        field('created', from => new Date(from.createdAt));
-        field('age', from => from.age);
-        field('isActive', from => from.active);
-        field('nestedProperty', from => from.nested.property);
-        field('tagList', from => from.tags.join(', '));
-        
-        post((ctx, from, to) => {
-          // Make the primary object invalid by setting required fields to null/undefined
-          // Note: We can't directly set 'to' to null as it's a reference
-          Object.keys(to).forEach(key => {
-            (to as any)[key] = null;
-          });
-          
-          // Add some additional objects
-          add({
-            id: 'additional-1',
-            displayName: 'Additional 1',
-            emailAddress: 'additional1@example.com',
-            created: new Date(),
-            age: 25,
-            isActive: true,
-            nestedProperty: '',
-            tagList: ''
-          });
+    it('should reject when a conversion fails', async () => {
+      const converter = createConverter<Row, Converted>((field) => {
+        field('id', from => {
+          if (from.id === 2) throw new Error('Bad row');
+          return from.id;
         });
       });
 
-      // This should throw because the primary object is empty
-      // but Many requires a valid primary object
-      await expect(converter(sourceFixture)).rejects.toThrow();
+      await expect(collect(convertIterable(converter, rows(5), { concurrency: 2 }))).rejects.toThrow(/Bad row/);
+    });
+
+    it('should work as an object-mode Node transform stream', async () => {
+      const output: Converted[] = [];
+      const additional: Converted[] = [];
+      const transform = createNodeTransform(createRowConverter(), { concurrency: 2, additional: 'side' });
+      transform.on('additional', (extras: Converted[]) => additional.push(...extras));
+
+      await pipeline(
+        Readable.from(rows(5)),
+        transform,
+        new Writable({
+          objectMode: true,
+          write(chunk, _encoding, callback) {
+            output.push(chunk);
+            callback();
+          }
+        })
+      );
+
+      expect(output.map(o => o.id)).toEqual([0, 1, 2, 3, 4]);
+      expect(additional.map(o => o.id)).toEqual([0, 2, 4]);
+    });
+
+    it('should propagate errors through Node pipelines', async () => {
+      const converter = createConverter<Row, Converted>((field) => {
+        field('id', () => {
+          throw new Error('Bad row');
+        });
+      });
+
+      await expect(
+        pipeline(
+          Readable.from(rows(3)),
+          createNodeTransform(converter),
+          new Writable({ objectMode: true, write: (_chunk, _encoding, callback) => callback() })
+        )
+      ).rejects.toThrow(/Bad row/);
+    });
+
+    it('should work as a WHATWG TransformStream', async () => {
+      const source = rows(3);
+      const readable = new ReadableStream<Row>({
+        async pull(controller) {
+          const { value, done } = await source.next();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        }
+      }).pipeThrough(
+        createTransformStream(createRowConverter(), { concurrency: 2 })
+      );
+
+      expect(await collect(readable)).toEqual([
+        { id: 0, kind: 'primary' },
+        { id: 0, kind: 'extra' },
+        { id: 1, kind: 'primary' },
+        { id: 2, kind: 'primary' },
+        { id: 2, kind: 'extra' }
+      ]);
     });
   });
 
@@ -807,6 +3434,213 @@ describe('Converter Library', () => {
     });
   });
 
+  describe('createBidirectionalConverter', () => {
+    const createUserConverter = () =>
+      createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+        pair('id', 'id');
+        pair('name', 'displayName');
+        pair('email', 'emailAddress');
+        pair('age', 'age');
+        pair('active', 'isActive');
+        pair('created', {
+          get: from => new Date(from.createdAt),
+          set: from => ({ createdAt: from.created.toISOString() })
+        });
+        pair('nestedProperty', {
+          get: from => from.nested.property,
+          set: from => ({ nested: { property: from.nestedProperty } })
+        });
+        pair('tagList', {
+          get: from => from.tags.join(', '),
+          set: from => ({ tags: from.tagList.split(', ') })
+        });
+      });
+
+    it('should derive both directions from one definition', async () => {
+      const users = createUserConverter();
+
+      const bResult = await users.forward(sourceFixture);
+      expect(bResult).toEqual({
+        id: '123',
+        displayName: 'John Doe',
+        emailAddress: 'john.doe@example.com',
+        created: new Date('2023-01-15T12:00:00Z'),
+        age: 30,
+        isActive: true,
+        nestedProperty: 'nested value',
+        tagList: 'tag1, tag2, tag3'
+      });
+
+      const aResult = await users.reverse(bResult as TargetObject);
+      expect(aResult).toEqual({
+        ...sourceFixture,
+        createdAt: '2023-01-15T12:00:00.000Z'
+      });
+    });
+
+    it('should run hooks for the matching direction', async () => {
+      const forwardHook = vi.fn();
+      const reverseHook = vi.fn();
+
+      const users = createBidirectionalConverter<SourceObject, TargetObject>((pair, pre, post) => {
+        pair('id', 'id');
+        pre({ forward: forwardHook });
+        post({ reverse: reverseHook });
+      });
+
+      await users.forward(sourceFixture);
+      expect(forwardHook).toHaveBeenCalledTimes(1);
+      expect(reverseHook).not.toHaveBeenCalled();
+
+      await users.reverse({ id: '123' } as TargetObject);
+      expect(forwardHook).toHaveBeenCalledTimes(1);
+      expect(reverseHook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flag field pairs without an inverse at definition time', () => {
+      expect(() =>
+        createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+          pair('id', 'id');
+          pair('created', { get: from => new Date(from.createdAt) });
+        })
+      ).toThrow(/created/);
+    });
+
+    it('should allow forward-only pairs when marked oneWay', async () => {
+      const users = createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+        pair('id', 'id');
+        pair('tagList', { get: from => from.tags.join(', '), oneWay: true });
+      });
+
+      expect(await users.forward(sourceFixture)).toEqual({ id: '123', tagList: 'tag1, tag2, tag3' });
+      expect(await users.reverse({ id: '123', tagList: 'a' } as TargetObject)).toEqual({ id: '123' });
+    });
+
+    it('should rename between nested paths in both directions', async () => {
+      interface Customer extends GenericObject { id: string; address: { city: string; zip: string } }
+      interface Contact extends GenericObject { id: string; city: string; location: { zip: string } }
+      const contacts = createBidirectionalConverter<Customer, Contact>((pair) => {
+        pair('id', 'id');
+        pair('address.city', 'city');
+        pair('address.zip', 'location.zip');
+      });
+
+      const customer = { id: 'c1', address: { city: 'Oslo', zip: '0150' } };
+      const contact = getPrimary(await contacts.forward(customer));
+
+      expect(contact).toEqual({ id: 'c1', city: 'Oslo', location: { zip: '0150' } });
+      expect(await contacts.reverse(contact)).toEqual(customer);
+    });
+
+    it('should reject renames that cannot be written back', () => {
+      expect(() =>
+        createBidirectionalConverter<SourceObject, GenericObject>((pair) => {
+          pair('tags[0]' as never, 'firstTag');
+        })
+      ).toThrow(/Array indexes and wildcards can only be read/);
+    });
+
+    it('should apply shared and per-direction options', async () => {
+      const users = createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+        pair('id', 'id');
+        pair('email', 'emailAddress');
+      }, {
+        errorHandling: 'throw',
+        forward: { requiredFields: ['emailAddress'] },
+        reverse: { defaults: { active: false } }
+      });
+
+      await expect(users.forward({ id: '1' } as SourceObject)).rejects.toThrow(/Missing required fields/);
+      expect(await users.reverse({ id: '1', emailAddress: 'a@b.c' } as TargetObject)).toEqual({
+        id: '1',
+        email: 'a@b.c',
+        active: false
+      });
+    });
+  });
+
+  describe('checkRoundTrip', () => {
+    const createUserConverter = () =>
+      createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+        pair('id', 'id');
+        pair('name', 'displayName');
+        pair('email', 'emailAddress');
+        pair('age', 'age');
+        pair('active', 'isActive');
+        pair('created', {
+          get: from => new Date(from.createdAt),
+          set: from => ({ createdAt: from.created.toISOString() })
+        });
+        pair('nestedProperty', {
+          get: from => from.nested.property,
+          set: from => ({ nested: { property: from.nestedProperty } })
+        });
+        pair('tagList', {
+          get: from => from.tags.join(', '),
+          set: from => ({ tags: from.tagList.split(', ') })
+        });
+      });
+
+    it('should report paths where the round trip is not the identity', async () => {
+      const report = await checkRoundTrip(createUserConverter(), { a: [sourceFixture] });
+
+      expect(report.ok).toBe(false);
+      expect(report.checked).toBe(1);
+      expect(report.mismatches).toEqual([
+        {
+          direction: 'forward',
+          sample: 0,
+          path: 'createdAt',
+          expected: '2023-01-15T12:00:00Z',
+          actual: '2023-01-15T12:00:00.000Z'
+        }
+      ]);
+    });
+
+    it('should apply per-path equivalence overrides', async () => {
+      const report = await checkRoundTrip(createUserConverter(), {
+        a: [sourceFixture],
+        equivalences: { a: { createdAt: equivalences.sameInstant } }
+      });
+
+      expect(report).toEqual({ ok: true, checked: 1, mismatches: [] });
+    });
+
+    it('should check both directions', async () => {
+      const lossy = createBidirectionalConverter<SourceObject, TargetObject>((pair) => {
+        pair('id', 'id');
+        pair('age', {
+          get: from => from.age / 3,
+          set: from => ({ age: Math.round(from.age * 3 * 100) / 100 })
+        });
+        pair('tagList', {
+          get: from => from.tags.join(', '),
+          set: from => ({ tags: from.tagList.split(',') })
+        });
+      });
+
+      const report = await checkRoundTrip(lossy, {
+        a: [{ id: '1', age: 10, tags: ['a', 'b'] } as SourceObject],
+        b: [{ id: '1', age: 3.3333, tagList: 'a, b' } as TargetObject],
+        equivalences: { a: { 'tags[*]': equivalences.ignore }, b: { age: equivalences.tolerance(0.001) } }
+      });
+
+      expect(report.mismatches.map(({ direction, path }) => ({ direction, path }))).toEqual([
+        { direction: 'reverse', path: 'tagList' }
+      ]);
+    });
+
+    it('should report conversion failures as mismatches', async () => {
+      const report = await checkRoundTrip(createUserConverter(), {
+        b: [{ id: '1' } as TargetObject]
+      });
+
+      expect(report.ok).toBe(false);
+      expect(report.mismatches[0].direction).toBe('reverse');
+      expect(report.mismatches[0].error).toBeInstanceOf(ConverterError);
+    });
+  });
+
   describe('Partial Validator', () => {
     it('should validate required fields correctly', () => {
       const validator = createPartialValidator<TargetObject>();
@@ -0,0 +1,11 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The Node.js entry point imports the main one by package name
+    alias: {
+      '@doeixd/create-converter': fileURLToPath(new URL('./src/index.ts', import.meta.url)),
+    },
+  },
+});